@@ -0,0 +1,92 @@
+import type { Room } from 'livekit-client';
+import { RoomEvent } from 'livekit-client';
+import { map, merge, Observable, scan, shareReplay, startWith } from 'rxjs';
+import { DataTopic } from '../observables/dataChannel';
+import { roomEventSelector } from '../observables/room';
+import { log } from '../logger';
+
+/** @beta */
+export interface CaptionOptions {
+  /** @defaultValue DataTopic.CAPTIONS */
+  topic?: string;
+}
+
+/**
+ * Captions that are currently shown, by the identity of the participant sharing the media.
+ * @beta
+ */
+export type CaptionsByIdentity = Record<string, string>;
+
+type CaptionEvent = { identity: string; text: string | undefined };
+
+// Only a single text stream handler can be registered per topic.
+const captionObservables = new WeakMap<Room, Map<string, Observable<CaptionsByIdentity>>>();
+
+/**
+ * Sends the caption for the media the local participant is sharing. The caption stays visible to
+ * remote participants until the next one is sent, an empty text clears it. Pass
+ * `destinationIdentities` to only update late joiners.
+ * @beta
+ */
+export async function sendCaption(
+  room: Room,
+  text: string,
+  options: CaptionOptions & { destinationIdentities?: string[] } = {},
+) {
+  await room.localParticipant.sendText(text, {
+    topic: options.topic ?? DataTopic.CAPTIONS,
+    destinationIdentities: options.destinationIdentities,
+  });
+}
+
+/**
+ * Keeps track of the captions remote participants send for the media they share.
+ * @beta
+ */
+export function setupCaptions(
+  room: Room,
+  options: CaptionOptions = {},
+): Observable<CaptionsByIdentity> {
+  const topic = options.topic ?? DataTopic.CAPTIONS;
+  let roomObservables = captionObservables.get(room);
+  if (!roomObservables) {
+    roomObservables = new Map();
+    captionObservables.set(room, roomObservables);
+  }
+  const existing = roomObservables.get(topic);
+  if (existing) {
+    return existing;
+  }
+
+  const captionObservable = new Observable<CaptionEvent>((subscriber) => {
+    room.registerTextStreamHandler(topic, async (reader, participantInfo) => {
+      try {
+        const text = await reader.readAll();
+        subscriber.next({ identity: participantInfo.identity, text });
+      } catch (e) {
+        log.warn('could not read caption', e);
+      }
+    });
+    return () => room.unregisterTextStreamHandler(topic);
+  });
+  const disconnectedObservable = roomEventSelector(room, RoomEvent.ParticipantDisconnected).pipe(
+    map(([participant]): CaptionEvent => ({ identity: participant.identity, text: undefined })),
+  );
+
+  const captionsObservable = merge(captionObservable, disconnectedObservable).pipe(
+    scan<CaptionEvent, CaptionsByIdentity>((captions, { identity, text }) => {
+      const next = { ...captions };
+      if (text) {
+        next[identity] = text;
+      } else {
+        delete next[identity];
+      }
+      return next;
+    }, {}),
+    startWith({}),
+    // Tiles that mount later still need the captions that are currently shown
+    shareReplay({ bufferSize: 1, refCount: true }),
+  );
+  roomObservables.set(topic, captionsObservable);
+  return captionsObservable;
+}
@@ -0,0 +1,89 @@
+import { describe, test, expect, vi } from 'vitest';
+import type { ByteStreamHandler, LocalParticipant, TextStreamHandler } from 'livekit-client';
+import { Participant, Room } from 'livekit-client';
+import { ChatMessageAttributes, setupChat } from './chat';
+
+function setupRoom() {
+  const room = new Room();
+  const info = { id: 'msg_1', timestamp: Date.now() } as Awaited<
+    ReturnType<LocalParticipant['sendText']>
+  >;
+  vi.spyOn(room.localParticipant, 'sendText').mockResolvedValue(info);
+  vi.spyOn(room.localParticipant, 'publishData').mockResolvedValue();
+  const streamText = vi.spyOn(room.localParticipant, 'streamText').mockResolvedValue({
+    write: async () => {},
+    close: async () => {},
+    info,
+  } as unknown as Awaited<ReturnType<LocalParticipant['streamText']>>);
+  return { room, streamText };
+}
+
+describe('Test updates of sent messages', () => {
+  test('Edits and deletes of private messages only go to their recipients.', async () => {
+    const { room, streamText } = setupRoom();
+    const chat = setupChat(room);
+    const sent = await chat.send('hi', { destinationIdentities: ['identity_B'] });
+
+    await chat.edit(sent.id, 'hello');
+    await chat.delete(sent.id);
+    for (const [options] of streamText.mock.calls) {
+      expect(options).toMatchObject({
+        streamId: sent.id,
+        destinationIdentities: ['identity_B'],
+        attributes: { [ChatMessageAttributes.Update]: 'true' },
+      });
+    }
+    expect(streamText).toHaveBeenCalledTimes(2);
+  });
+
+  test('Edits of public messages go to the whole room.', async () => {
+    const { room, streamText } = setupRoom();
+    const chat = setupChat(room);
+    const sent = await chat.send('hi');
+
+    await chat.edit(sent.id, 'hello');
+    expect(streamText.mock.calls[0][0]?.destinationIdentities).toBeUndefined();
+  });
+});
+
+describe('Test attachments of dropped messages', () => {
+  test('Attachments of messages the flood protection dropped are discarded.', async () => {
+    const room = new Room();
+    room.remoteParticipants.set('identity_A', new Participant('sid_A', 'identity_A') as never);
+    const registerText = vi.spyOn(room, 'registerTextStreamHandler');
+    const registerBytes = vi.spyOn(room, 'registerByteStreamHandler');
+    setupChat(room, { inboundRateLimit: { maxMessages: 1, interval: 60_000 } });
+    const onText = registerText.mock.calls[0][1] as TextStreamHandler;
+    const onBytes = registerBytes.mock.calls[0][1] as ByteStreamHandler;
+    const sender = { identity: 'identity_A' };
+
+    for (const id of ['msg_1', 'msg_2']) {
+      const reader = {
+        info: { id, timestamp: Date.now(), attributes: {} },
+        async *[Symbol.asyncIterator]() {
+          yield 'hi';
+        },
+      };
+      await onText(reader as never, sender);
+    }
+    await new Promise((resolve) => setTimeout(resolve));
+
+    const chunks = vi.fn();
+    const attachment = {
+      info: {
+        id: 'file_1',
+        name: 'a.txt',
+        attributes: { [ChatMessageAttributes.MessageId]: 'msg_2' },
+      },
+      // Only attachments that are received read with a stall timeout
+      withAbortSignal: vi.fn(),
+      async *[Symbol.asyncIterator]() {
+        chunks();
+        yield new Uint8Array(1);
+      },
+    };
+    await onBytes(attachment as never, sender);
+    expect(chunks).toHaveBeenCalledOnce();
+    expect(attachment.withAbortSignal).not.toHaveBeenCalled();
+  });
+});
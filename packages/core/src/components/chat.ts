@@ -1,7 +1,20 @@
 /* eslint-disable camelcase */
 import type { Room, SendTextOptions } from 'livekit-client';
 import { compareVersions, RoomEvent } from 'livekit-client';
-import { BehaviorSubject, Subject, scan, map, takeUntil, from, filter } from 'rxjs';
+import {
+  BehaviorSubject,
+  Subject,
+  scan,
+  map,
+  takeUntil,
+  from,
+  filter,
+  defer,
+  merge,
+  EMPTY,
+  catchError,
+  of,
+} from 'rxjs';
 import {
   DataTopic,
   LegacyDataTopic,
@@ -10,12 +23,47 @@ import {
 } from '../observables/dataChannel';
 import { log } from '../logger';
 import { ChatMessage, ReceivedChatMessage } from '../messages/types';
+import { getChatConversationParticipants } from './chatConversations';
+import type { ChatHistoryStore, StoredChatMessage } from './chatHistory';
+import {
+  fromStoredChatMessage,
+  getChatMessageKey,
+  mergeChatHistory,
+  toStoredChatMessage,
+  upsertChatMessage,
+} from './chatHistory';
+import type { ChatAttachmentUpdate } from './chatAttachments';
+import {
+  applyChatAttachment,
+  ChatAttachmentTooLargeError,
+  createChatAttachment,
+  discardChatAttachment,
+  receiveChatAttachment,
+  sendChatAttachment,
+} from './chatAttachments';
+import type { ChatMiddleware } from './chatModeration';
+import {
+  applyChatMiddleware,
+  ChatMessageRejectedError,
+  flagChatMessage,
+  isChatMuted,
+} from './chatModeration';
+import type { ChatFloodProtectionOptions, ChatRateLimitOptions } from './chatRateLimit';
+import { ChatRateLimitError, createChatRateLimiter } from './chatRateLimit';
+import type { ChatReaction, ReceivedChatReaction } from './chatReactions';
+import {
+  applyChatReaction,
+  decodeChatReaction,
+  encodeChatReaction,
+  hasReacted,
+} from './chatReactions';
 
 /** @public */
 export type { ChatMessage, ReceivedChatMessage };
 
 export interface LegacyChatMessage extends ChatMessage {
   ignoreLegacy?: boolean;
+  attributes?: Record<string, string>;
 }
 
 export interface LegacyReceivedChatMessage extends ReceivedChatMessage {
@@ -41,9 +89,90 @@ export type ChatOptions = {
   channelTopic?: string;
   /** @deprecated the new chat API doesn't rely on update topics anymore and uses a dedicated chat API instead */
   updateChannelTopic?: string;
+  /**
+   * Persists the messages, which are rehydrated when (re)joining the room.
+   * @beta
+   */
+  historyStore?: ChatHistoryStore;
+  /**
+   * Maximum size in bytes of attached files. Larger files are rejected when sending and not
+   * downloaded when receiving.
+   * @beta
+   */
+  maxAttachmentSize?: number;
+  /**
+   * Moderates received messages before they are added to the chat, in order. Messages of
+   * participants muted by a chat moderator are dropped beforehand.
+   * @beta
+   */
+  inboundMiddleware?: ChatMiddleware[];
+  /**
+   * Moderates the messages of the local participant before they are sent, in order.
+   * @beta
+   */
+  outboundMiddleware?: ChatMiddleware[];
+  /**
+   * Limits how many messages the local participant may send or edit. Beyond it, `send` and `edit`
+   * throw a `ChatRateLimitError` and the chat counts as sending until the cooldown ended.
+   * @beta
+   */
+  sendRateLimit?: ChatRateLimitOptions;
+  /**
+   * Limits how many messages each remote participant may send, floods beyond it are dropped or
+   * collapsed into a single message.
+   * @beta
+   */
+  inboundRateLimit?: ChatFloodProtectionOptions;
+};
+
+/**
+ * Attributes of chat messages that carry information beyond the text.
+ * @beta
+ */
+export enum ChatMessageAttributes {
+  /** Set on the update that deletes a message, receivers remove it from the history. */
+  Deleted = 'lk.chat.deleted',
+  /** The id of the message that is replied to. */
+  ReplyTo = 'lk.chat.reply_to',
+  /** JSON array of the identities a private message was sent to. */
+  Recipients = 'lk.chat.recipients',
+  /** Set on updates, which receivers only apply to messages they know. */
+  Update = 'lk.chat.update',
+  /** Set on the byte streams of attachments, the id of the message they belong to. */
+  MessageId = 'lk.chat.message_id',
+}
+
+/** @beta */
+export function isDeletedChatMessage(msg: Pick<ReceivedChatMessage, 'attributes'>) {
+  return msg.attributes?.[ChatMessageAttributes.Deleted] === 'true';
+}
+
+type ChatSubjects = {
+  messageSubject: Subject<ReceivedChatMessage>;
+  reactionSubject: Subject<ReceivedChatReaction>;
+  attachmentSubject: Subject<ChatAttachmentUpdate>;
+  /** Attachments that are being sent or received, by id. */
+  transfers: Map<string, AbortController>;
+  /** Recipients of the own private messages, by id, their updates are sent to the same ones. */
+  recipients: Map<string, string[]>;
 };
 
-const topicSubjectMap: WeakMap<Room, Map<string, Subject<ReceivedChatMessage>>> = new WeakMap();
+/** Flags messages that were only sent to some participants, based on their attributes. */
+function withRecipients(message: ReceivedChatMessage): ReceivedChatMessage {
+  const recipients = message.attributes?.[ChatMessageAttributes.Recipients];
+  if (!recipients) {
+    return message;
+  }
+  let recipientIdentities: string[] | undefined;
+  try {
+    recipientIdentities = JSON.parse(recipients);
+  } catch (error) {
+    log.warn('could not decode chat message recipients', error);
+  }
+  return { ...message, isPrivate: true, recipientIdentities };
+}
+
+const topicSubjectMap: WeakMap<Room, Map<string, ChatSubjects>> = new WeakMap();
 
 function isIgnorableChatMessage(msg: ReceivedChatMessage | LegacyReceivedChatMessage) {
   return (msg as LegacyChatMessage).ignoreLegacy == true;
@@ -57,6 +186,60 @@ const decodeLegacyMsg = (message: Uint8Array) =>
 const encodeLegacyMsg = (message: LegacyChatMessage) =>
   new TextEncoder().encode(JSON.stringify(message));
 
+/** Writes new and edited messages and reactions to the store, in the order they arrive. */
+function persistChatHistory(
+  store: ChatHistoryStore,
+  { messageSubject, reactionSubject }: ChatSubjects,
+) {
+  const persisted = new Map<string, StoredChatMessage>();
+  let queue: Promise<unknown> = store
+    .load()
+    .then((history) => history.forEach((msg) => persisted.set(getChatMessageKey(msg), msg)))
+    .catch((error) => log.warn('could not load chat history', error));
+
+  messageSubject.subscribe((value) => {
+    queue = queue.then(async () => {
+      const msg = toStoredChatMessage(value);
+      const key = getChatMessageKey(msg);
+      const previous = persisted.get(key);
+      try {
+        if (previous) {
+          const [updated] = upsertChatMessage([previous], msg);
+          persisted.set(key, updated);
+          await store.update(updated);
+        } else if (msg.editTimestamp === undefined) {
+          persisted.set(key, msg);
+          await store.append(msg);
+        }
+      } catch (error) {
+        log.warn('could not persist chat message', error);
+      }
+    });
+  });
+
+  reactionSubject.subscribe((reaction) => {
+    queue = queue.then(async () => {
+      const key = getChatMessageKey({
+        id: reaction.messageId,
+        from: reaction.messageFrom ? { identity: reaction.messageFrom } : undefined,
+      });
+      const previous = persisted.get(key);
+      if (!previous) {
+        return;
+      }
+      const [updated] = applyChatReaction([previous], reaction);
+      persisted.set(key, updated);
+      try {
+        await store.update(updated);
+      } catch (error) {
+        log.warn('could not persist chat reaction', error);
+      }
+    });
+  });
+}
+
+const MAX_FLOOD_DECISIONS = 1000;
+
 export function setupChat(room: Room, options?: ChatOptions) {
   const serverSupportsDataStreams = () =>
     room.serverInfo?.edition === 1 ||
@@ -66,40 +249,178 @@ export function setupChat(room: Room, options?: ChatOptions) {
 
   const topic = options?.channelTopic ?? DataTopic.CHAT;
   const legacyTopic = options?.channelTopic ?? LegacyDataTopic.CHAT;
+  const reactionTopic = options?.channelTopic
+    ? `${options.channelTopic}.reactions`
+    : DataTopic.CHAT_REACTIONS;
 
   let needsSetup = false;
   if (!topicSubjectMap.has(room)) {
     needsSetup = true;
   }
-  const topicMap = topicSubjectMap.get(room) ?? new Map<string, Subject<ReceivedChatMessage>>();
-  const messageSubject = topicMap.get(topic) ?? new Subject<ReceivedChatMessage>();
-  topicMap.set(topic, messageSubject);
+  const topicMap = topicSubjectMap.get(room) ?? new Map<string, ChatSubjects>();
+  const subjects = topicMap.get(topic) ?? {
+    messageSubject: new Subject<ReceivedChatMessage>(),
+    reactionSubject: new Subject<ReceivedChatReaction>(),
+    attachmentSubject: new Subject<ChatAttachmentUpdate>(),
+    transfers: new Map<string, AbortController>(),
+    recipients: new Map<string, string[]>(),
+  };
+  const { messageSubject, reactionSubject, attachmentSubject, transfers, recipients } = subjects;
+  topicMap.set(topic, subjects);
   topicSubjectMap.set(room, topicMap);
 
   const finalMessageDecoder = options?.messageDecoder ?? decodeLegacyMsg;
+
+  const senderFloods = new Map<
+    string,
+    { limiter: ReturnType<typeof createChatRateLimiter>; floodId?: string }
+  >();
+  // Streamed messages arrive in chunks and may be edited, the decision is made once per message
+  const floodDecisions = new Map<string, { id: string; flooded: boolean } | null>();
+
+  /** Drops or collapses the messages remote participants send beyond the inbound rate limit. */
+  const limitInbound = (message: ReceivedChatMessage) => {
+    const floodProtection = options?.inboundRateLimit;
+    if (!floodProtection || !message.from) {
+      return message;
+    }
+    const key = getChatMessageKey(message);
+    let decision = floodDecisions.get(key);
+    if (decision === undefined) {
+      const { identity } = message.from;
+      const sender = senderFloods.get(identity) ?? {
+        limiter: createChatRateLimiter(floodProtection),
+      };
+      senderFloods.set(identity, sender);
+      if (sender.limiter.take(Date.now()).allowed) {
+        sender.floodId = undefined;
+        decision = { id: message.id, flooded: false };
+      } else if (floodProtection.mode === 'collapse') {
+        sender.floodId ??= message.id;
+        decision = { id: sender.floodId, flooded: true };
+      } else {
+        decision = null;
+      }
+      floodDecisions.set(key, decision);
+      if (floodDecisions.size > MAX_FLOOD_DECISIONS) {
+        const [oldest] = floodDecisions.keys();
+        floodDecisions.delete(oldest);
+      }
+    }
+    if (!decision) {
+      return undefined;
+    }
+    return decision.flooded ? flagChatMessage({ ...message, id: decision.id }, 'flood') : message;
+  };
+
+  /** Whether the flood protection dropped the message or collapsed it into another one. */
+  const isFloodDropped = (identity: string, messageId: string) => {
+    const decision = floodDecisions.get(getChatMessageKey({ id: messageId, from: { identity } }));
+    return decision === null || (decision !== undefined && decision.id !== messageId);
+  };
+
+  /**
+   * Drops messages of muted participants, limits floods and runs the remaining messages through
+   * the inbound middleware.
+   */
+  const moderateInbound = (message: ReceivedChatMessage) => {
+    if (isDeletedChatMessage(message)) {
+      return message;
+    }
+    if (message.from && isChatMuted(room, message.from.identity)) {
+      return undefined;
+    }
+    const limited = limitInbound(message);
+    if (!limited) {
+      return undefined;
+    }
+    try {
+      return applyChatMiddleware(limited, options?.inboundMiddleware ?? [], {
+        room,
+        direction: 'inbound',
+      });
+    } catch (error) {
+      if (error instanceof ChatMessageRejectedError) {
+        log.debug('dropped chat message', error.reason);
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
   if (needsSetup) {
     room.registerTextStreamHandler(topic, async (reader, participantInfo) => {
-      const { id, timestamp } = reader.info;
+      const { id, timestamp, attributes } = reader.info;
+      const isUpdate = attributes?.[ChatMessageAttributes.Update] === 'true';
       const streamObservable = from(reader).pipe(
         scan((acc: string, chunk: string) => {
           return acc + chunk;
         }),
         map((chunk: string) => {
-          return {
+          return withRecipients({
             id,
             timestamp,
+            ...(isUpdate ? { editTimestamp: timestamp } : {}),
             message: chunk,
             from: room.getParticipantByIdentity(participantInfo.identity),
             type: 'chatMessage',
-            // editTimestamp: type === 'update' ? timestamp : undefined,
-          } satisfies ReceivedChatMessage;
+            attributes,
+          });
         }),
       );
+      let emitted = false;
+      let rejected = false;
       streamObservable.subscribe({
-        next: (value) => messageSubject.next(value),
+        next: (value) => {
+          if (rejected) {
+            return;
+          }
+          const moderated = moderateInbound(value);
+          if (moderated) {
+            emitted = true;
+            messageSubject.next(moderated);
+          } else {
+            rejected = true;
+            // The message may only violate the middleware once more of it arrived
+            if (emitted) {
+              messageSubject.next({
+                ...value,
+                attributes: { ...value.attributes, [ChatMessageAttributes.Deleted]: 'true' },
+              });
+            }
+          }
+        },
       });
     });
 
+    room.registerByteStreamHandler(topic, async (reader, participantInfo) => {
+      const messageId = reader.info.attributes?.[ChatMessageAttributes.MessageId];
+      if (!messageId) {
+        return;
+      }
+      const { identity } = participantInfo;
+      if (isChatMuted(room, identity) || isFloodDropped(identity, messageId)) {
+        await discardChatAttachment(reader);
+        return;
+      }
+      const controller = new AbortController();
+      transfers.set(reader.info.id, controller);
+      try {
+        await receiveChatAttachment(reader, {
+          maxSize: options?.maxAttachmentSize,
+          signal: controller.signal,
+          onUpdate: (attachment) =>
+            attachmentSubject.next({
+              messageId,
+              messageFrom: participantInfo.identity,
+              attachment,
+            }),
+        });
+      } finally {
+        transfers.delete(reader.info.id);
+      }
+    });
+
     /** legacy chat protocol handling */
     const { messageObservable } = setupDataMessageHandler(room, [legacyTopic]);
     messageObservable
@@ -114,54 +435,240 @@ export function setupChat(room: Room, options?: ChatOptions) {
             type: 'chatMessage',
             from: msg.from,
           };
-          return newMessage;
+          return moderateInbound(withRecipients(newMessage));
         }),
         filter((msg) => !!msg),
         takeUntil(onDestroyObservable),
       )
       .subscribe(messageSubject);
+
+    const { messageObservable: reactionObservable } = setupDataMessageHandler(room, [
+      reactionTopic,
+    ]);
+    reactionObservable
+      .pipe(
+        map((msg) => {
+          const reaction = decodeChatReaction(msg.payload);
+          return reaction && msg.from
+            ? ({ ...reaction, identity: msg.from.identity } satisfies ReceivedChatReaction)
+            : undefined;
+        }),
+        filter((reaction) => !!reaction),
+        takeUntil(onDestroyObservable),
+      )
+      .subscribe(reactionSubject);
+
+    if (options?.historyStore) {
+      persistChatHistory(options.historyStore, subjects);
+    }
   }
 
+  const historyStore = options?.historyStore;
+  const historyObservable = historyStore
+    ? defer(() => historyStore.load()).pipe(
+        map((history) =>
+          history.map((msg) => {
+            if (msg.from?.identity === room.localParticipant.identity && msg.recipientIdentities) {
+              recipients.set(msg.id, msg.recipientIdentities);
+            }
+            return fromStoredChatMessage(msg, room);
+          }),
+        ),
+        catchError((error) => {
+          log.warn('could not load chat history', error);
+          return of([]);
+        }),
+      )
+    : EMPTY;
+
   /** Build up the message array over time. */
-  const messagesObservable = messageSubject.pipe(
-    scan<ReceivedChatMessage, ReceivedChatMessage[]>((acc, value) => {
-      if (
-        'id' in value &&
-        acc.find((msg) => msg.from?.identity === value.from?.identity && msg.id === value.id)
-      ) {
-        const replaceIndex = acc.findIndex((msg) => msg.id === value.id);
-        if (replaceIndex > -1) {
-          const originalMsg = acc[replaceIndex];
-          acc[replaceIndex] = {
-            ...value,
-            timestamp: originalMsg.timestamp,
-            editTimestamp: value.timestamp,
-          };
-        }
-        return [...acc];
-      }
-      return [...acc, value];
-    }, []),
+  const messagesObservable = merge(
+    historyObservable.pipe(
+      map((history) => (acc: ReceivedChatMessage[]) => mergeChatHistory(acc, history)),
+    ),
+    messageSubject.pipe(
+      map((value) => (acc: ReceivedChatMessage[]) => upsertChatMessage(acc, value)),
+    ),
+    reactionSubject.pipe(
+      map((reaction) => (acc: ReceivedChatMessage[]) => applyChatReaction(acc, reaction)),
+    ),
+    attachmentSubject.pipe(
+      map((update) => (acc: ReceivedChatMessage[]) => applyChatAttachment(acc, update)),
+    ),
+  ).pipe(
+    scan<(acc: ReceivedChatMessage[]) => ReceivedChatMessage[], ReceivedChatMessage[]>(
+      (acc, reduce) => reduce(acc),
+      [],
+    ),
+    map((messages) => messages.filter((msg) => !isDeletedChatMessage(msg))),
     takeUntil(onDestroyObservable),
   );
 
   const isSending$ = new BehaviorSubject<boolean>(false);
+  const rateLimitedUntil$ = new BehaviorSubject<number>(0);
+  const sendRateLimiter = options?.sendRateLimit && createChatRateLimiter(options.sendRateLimit);
+  let isSendingMessage = false;
+  let cooldownTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  const updateIsSending = () => isSending$.next(isSendingMessage || rateLimitedUntil$.value > 0);
+
+  const setRateLimitedUntil = (limitedUntil: number) => {
+    clearTimeout(cooldownTimeout);
+    rateLimitedUntil$.next(limitedUntil);
+    updateIsSending();
+    if (limitedUntil > 0) {
+      cooldownTimeout = setTimeout(() => setRateLimitedUntil(0), limitedUntil - Date.now());
+    }
+  };
+
+  /** Counts a message of the local participant to the send rate limit. */
+  const takeSendSlot = () => {
+    if (!sendRateLimiter) {
+      return;
+    }
+    const { allowed, limitedUntil } = sendRateLimiter.take(Date.now());
+    setRateLimitedUntil(limitedUntil);
+    if (!allowed) {
+      throw new ChatRateLimitError(limitedUntil - Date.now());
+    }
+  };
+
   const finalMessageEncoder = options?.messageEncoder ?? encodeLegacyMsg;
 
+  /** Sends the message to participants that only support the legacy chat protocol. */
+  const sendLegacy = async (
+    legacyChatMsg: LegacyChatMessage,
+    destinationIdentities?: Array<string>,
+  ) => {
+    const encodedLegacyMsg = finalMessageEncoder({
+      ...legacyChatMsg,
+      ignoreLegacy: serverSupportsDataStreams(),
+    });
+
+    try {
+      await sendMessage(room.localParticipant, encodedLegacyMsg, {
+        reliable: true,
+        topic: legacyTopic,
+        destinationIdentities,
+      });
+    } catch (error) {
+      log.info('could not send message in legacy chat format', error);
+    }
+  };
+
+  /** Runs a message of the local participant through the outbound middleware, unless muted. */
+  const moderateOutbound = (message: string, attributes?: Record<string, string>) => {
+    if (isChatMuted(room, room.localParticipant.identity)) {
+      throw new ChatMessageRejectedError('you are muted in the chat');
+    }
+    const moderated = applyChatMiddleware(
+      {
+        id: '',
+        timestamp: Date.now(),
+        type: 'chatMessage',
+        message,
+        from: room.localParticipant,
+        attributes,
+      },
+      options?.outboundMiddleware ?? [],
+      { room, direction: 'outbound' },
+    );
+    if (!moderated) {
+      throw new ChatMessageRejectedError('the message was dropped by the middleware');
+    }
+    return moderated;
+  };
+
+  const maxAttachmentSize = options?.maxAttachmentSize;
+
+  /** Streams the files of a message in the background, their progress updates the message. */
+  const sendAttachments = (
+    messageId: string,
+    files: File[],
+    attachmentIds: string[],
+    options: SendTextOptions,
+  ) => {
+    const progresses = files.map(() => 0);
+    files.forEach((file, idx) => {
+      const controller = new AbortController();
+      transfers.set(attachmentIds[idx], controller);
+      sendChatAttachment(room.localParticipant, file, {
+        streamId: attachmentIds[idx],
+        topic,
+        attributes: { [ChatMessageAttributes.MessageId]: messageId },
+        destinationIdentities: options.destinationIdentities,
+        signal: controller.signal,
+        onUpdate: (attachment) => {
+          progresses[idx] = attachment.progress ?? 0;
+          options.onProgress?.(progresses.reduce((sum, p) => sum + p, 0) / files.length);
+          attachmentSubject.next({
+            messageId,
+            messageFrom: room.localParticipant.identity,
+            attachment,
+          });
+        },
+      })
+        .catch((error) => log.warn('could not send chat attachment', error))
+        .finally(() => transfers.delete(attachmentIds[idx]));
+    });
+  };
+
+  // Attachments are streamed separately, so they can be cancelled and stay private
+  const sendWithAttachmentIds = async (
+    message: string,
+    attachmentIds: string[],
+    options: SendTextOptions,
+  ) => {
+    const writer = await room.localParticipant.streamText({
+      topic: options.topic,
+      destinationIdentities: options.destinationIdentities,
+      attributes: options.attributes,
+      attachedStreamIds: attachmentIds,
+    });
+    await writer.write(message);
+    await writer.close();
+    return writer.info;
+  };
+
   const send = async (message: string, options?: SendTextOptions) => {
     if (!options) {
       options = {};
     }
+    const files = options.attachments ?? [];
+    const tooLarge =
+      maxAttachmentSize === undefined
+        ? undefined
+        : files.find((file) => file.size > maxAttachmentSize);
+    if (tooLarge && maxAttachmentSize !== undefined) {
+      throw new ChatAttachmentTooLargeError(tooLarge, maxAttachmentSize);
+    }
+    const { flags, ...moderated } = moderateOutbound(message, options.attributes);
+    message = moderated.message;
+    options.attributes = moderated.attributes;
     options.topic ??= topic;
-    isSending$.next(true);
+    if (options.destinationIdentities?.length) {
+      options.attributes = {
+        ...options.attributes,
+        [ChatMessageAttributes.Recipients]: JSON.stringify(options.destinationIdentities),
+      };
+    }
+    takeSendSlot();
+    isSendingMessage = true;
+    updateIsSending();
 
     try {
-      const info = await room.localParticipant.sendText(message, options);
+      const attachmentIds = files.map(() => crypto.randomUUID());
+      const info =
+        files.length === 0
+          ? await room.localParticipant.sendText(message, options)
+          : await sendWithAttachmentIds(message, attachmentIds, options);
 
       const legacyChatMsg: LegacyChatMessage = {
         id: info.id,
-        timestamp: Date.now(),
+        // The timestamp of the stream header, which receivers and their read receipts refer to
+        timestamp: info.timestamp,
         message,
+        attributes: options.attributes,
       };
 
       const chatMsg: ChatMessage = {
@@ -169,47 +676,149 @@ export function setupChat(room: Room, options?: ChatOptions) {
         attachedFiles: options.attachments,
       };
 
-      const receivedChatMsg: ReceivedChatMessage = {
+      const receivedChatMsg = withRecipients({
         ...chatMsg,
         type: 'chatMessage',
         from: room.localParticipant,
-        attributes: options.attributes,
-      };
-
-      messageSubject.next(receivedChatMsg);
-
-      const encodedLegacyMsg = finalMessageEncoder({
-        ...legacyChatMsg,
-        ignoreLegacy: serverSupportsDataStreams(),
+        flags,
+        ...(files.length > 0
+          ? {
+              attachments: files.map((file, idx) => createChatAttachment(attachmentIds[idx], file)),
+            }
+          : {}),
       });
 
-      try {
-        await sendMessage(room.localParticipant, encodedLegacyMsg, {
-          reliable: true,
-          topic: legacyTopic,
-        });
-      } catch (error) {
-        log.info('could not send message in legacy chat format', error);
+      if (options.destinationIdentities?.length) {
+        recipients.set(info.id, options.destinationIdentities);
       }
+      messageSubject.next(receivedChatMsg);
+      sendAttachments(info.id, files, attachmentIds, options);
+      await sendLegacy(legacyChatMsg, options.destinationIdentities);
 
       return receivedChatMsg;
     } finally {
-      isSending$.next(false);
+      isSendingMessage = false;
+      updateIsSending();
     }
   };
 
+  /** Sends the message as a reply to another one. */
+  const reply = (replyTo: ReceivedChatMessage, message: string, options?: SendTextOptions) =>
+    send(message, {
+      ...options,
+      attributes: { ...options?.attributes, [ChatMessageAttributes.ReplyTo]: replyTo.id },
+    });
+
+  /**
+   * Sends an update of one of the own messages under its original stream id. Updates of private
+   * messages go to the same participants as the message, unless others are given.
+   */
+  const sendUpdate = async (
+    messageId: string,
+    message: string,
+    attributes?: Record<string, string>,
+    destinationIdentities = recipients.get(messageId),
+  ) => {
+    attributes = { ...attributes, [ChatMessageAttributes.Update]: 'true' };
+    const writer = await room.localParticipant.streamText({
+      topic,
+      streamId: messageId,
+      type: 'update',
+      attributes,
+      destinationIdentities,
+    });
+    await writer.write(message);
+    await writer.close();
+
+    const timestamp = Date.now();
+    const legacyChatMsg: LegacyChatMessage = {
+      id: messageId,
+      timestamp,
+      editTimestamp: timestamp,
+      message,
+      attributes,
+    };
+    messageSubject.next({
+      ...legacyChatMsg,
+      type: 'chatMessage',
+      from: room.localParticipant,
+    });
+    await sendLegacy(legacyChatMsg, destinationIdentities);
+  };
+
+  /**
+   * Replaces the text of one of the own messages. Receivers only apply updates to messages of the
+   * same sender.
+   */
+  const edit = async (
+    messageId: string,
+    message: string,
+    options?: Pick<SendTextOptions, 'destinationIdentities'>,
+  ) => {
+    const moderated = moderateOutbound(message);
+    takeSendSlot();
+    await sendUpdate(messageId, moderated.message, undefined, options?.destinationIdentities);
+  };
+
+  /** Removes one of the own messages for everyone it was sent to. */
+  const deleteMessage = (
+    messageId: string,
+    options?: Pick<SendTextOptions, 'destinationIdentities'>,
+  ) =>
+    sendUpdate(
+      messageId,
+      '',
+      { [ChatMessageAttributes.Deleted]: 'true' },
+      options?.destinationIdentities,
+    );
+
+  /** Adds the reaction to the message, or removes it if the local participant already reacted. */
+  const react = async (message: ReceivedChatMessage, emoji: string) => {
+    const { identity } = room.localParticipant;
+    const reaction = {
+      messageId: message.id,
+      messageFrom: message.from?.identity,
+      emoji,
+      action: hasReacted(message, emoji, identity) ? 'remove' : 'add',
+    } satisfies ChatReaction;
+    // Reactions to private messages stay within the conversation
+    const destinationIdentities = getChatConversationParticipants(message, identity);
+    if (!destinationIdentities || destinationIdentities.length > 0) {
+      await sendMessage(room.localParticipant, encodeChatReaction(reaction), {
+        reliable: true,
+        topic: reactionTopic,
+        destinationIdentities,
+      });
+    }
+    reactionSubject.next({ ...reaction, identity });
+  };
+
+  /** Stops sending or downloading an attachment. */
+  const cancelAttachment = (attachmentId: string) => transfers.get(attachmentId)?.abort();
+
   function destroy() {
     onDestroyObservable.next();
     onDestroyObservable.complete();
     messageSubject.complete();
+    reactionSubject.complete();
     topicSubjectMap.delete(room);
+    transfers.forEach((controller) => controller.abort());
+    clearTimeout(cooldownTimeout);
     room.unregisterTextStreamHandler(topic);
+    room.unregisterByteStreamHandler(topic);
   }
   room.once(RoomEvent.Disconnected, destroy);
 
   return {
     messageObservable: messagesObservable,
     isSendingObservable: isSending$,
+    /** When the local participant may send again, `0` if not limited by the send rate limit. */
+    rateLimitedUntilObservable: rateLimitedUntil$,
     send,
+    reply,
+    edit,
+    delete: deleteMessage,
+    react,
+    cancelAttachment,
   };
 }
@@ -0,0 +1,109 @@
+import { describe, test, expect } from 'vitest';
+import type { ByteStreamReader, LocalParticipant } from 'livekit-client';
+import { Participant } from 'livekit-client';
+import type { ChatAttachment, ReceivedChatMessage } from '../messages/types';
+import { applyChatAttachment, receiveChatAttachment, sendChatAttachment } from './chatAttachments';
+
+const alice = new Participant('sid_A', 'identity_A');
+
+const message: ReceivedChatMessage = {
+  id: 'msg_1',
+  timestamp: 1000,
+  message: 'See attached',
+  type: 'chatMessage',
+  from: alice,
+};
+
+function attachment(progress: number, state: ChatAttachment['state']): ChatAttachment {
+  return { id: 'file_1', name: 'notes.pdf', mimeType: 'application/pdf', progress, state };
+}
+
+describe('Test applyChatAttachment', () => {
+  test('Attachments are added to and updated on their message.', () => {
+    let messages = applyChatAttachment([message], {
+      messageId: 'msg_1',
+      messageFrom: 'identity_A',
+      attachment: attachment(0.5, 'transferring'),
+    });
+    messages = applyChatAttachment(messages, {
+      messageId: 'msg_1',
+      messageFrom: 'identity_A',
+      attachment: attachment(1, 'complete'),
+    });
+    expect(messages[0].attachments).toStrictEqual([attachment(1, 'complete')]);
+  });
+
+  test('Updates for unknown messages or senders are ignored.', () => {
+    const messages = [message];
+    expect(
+      applyChatAttachment(messages, {
+        messageId: 'msg_1',
+        messageFrom: 'identity_B',
+        attachment: attachment(1, 'complete'),
+      }),
+    ).toBe(messages);
+  });
+});
+
+describe('Test sendChatAttachment', () => {
+  const send = (localParticipant: Partial<LocalParticipant>, updates: ChatAttachment[]) =>
+    sendChatAttachment(localParticipant as LocalParticipant, new File(['hello'], 'notes.txt'), {
+      streamId: 'file_1',
+      topic: 'lk.chat',
+      attributes: {},
+      signal: new AbortController().signal,
+      onUpdate: (update) => updates.push(update),
+    });
+
+  test('A transfer that fails while streaming is marked as failed.', async () => {
+    const updates: ChatAttachment[] = [];
+    const writer = {
+      write: async () => {
+        throw new Error('disconnected');
+      },
+      close: async () => {},
+    };
+    await expect(send({ streamBytes: async () => writer as never }, updates)).rejects.toThrow(
+      'disconnected',
+    );
+    expect(updates.at(-1)?.state).toBe('failed');
+  });
+
+  test('A transfer that cannot be opened is marked as failed.', async () => {
+    const updates: ChatAttachment[] = [];
+    await expect(
+      send(
+        {
+          streamBytes: async () => {
+            throw new Error('not connected');
+          },
+        },
+        updates,
+      ),
+    ).rejects.toThrow('not connected');
+    expect(updates.map(({ state }) => state)).toStrictEqual(['failed']);
+  });
+});
+
+describe('Test receiveChatAttachment', () => {
+  test('A transfer without new chunks fails once it stalled.', async () => {
+    const reader = {
+      info: { id: 'file_1', name: 'notes.txt', mimeType: 'text/plain', size: 5 },
+      withAbortSignal: (signal: AbortSignal) => ({
+        [Symbol.asyncIterator]: () => ({
+          next: () =>
+            new Promise((_, reject) =>
+              signal.addEventListener('abort', () => reject(signal.reason)),
+            ),
+        }),
+      }),
+    };
+    const updates: ChatAttachment[] = [];
+    await receiveChatAttachment(reader as unknown as ByteStreamReader, {
+      signal: new AbortController().signal,
+      onUpdate: (update) => updates.push(update),
+      stallTimeout: 10,
+    });
+    expect(updates.map(({ state }) => state)).toStrictEqual(['transferring', 'failed']);
+  });
+});
@@ -0,0 +1,227 @@
+import type { ByteStreamReader, LocalParticipant } from 'livekit-client';
+import { DataStreamError, DataStreamErrorReason } from 'livekit-client';
+import type { ChatAttachment, ReceivedChatMessage } from '../messages/types';
+import { log } from '../logger';
+
+/**
+ * Thrown if an attachment exceeds the `maxAttachmentSize` of the chat.
+ * @beta
+ */
+export class ChatAttachmentTooLargeError extends Error {
+  readonly file: File;
+
+  readonly maxSize: number;
+
+  constructor(file: File, maxSize: number) {
+    super(`${file.name} exceeds the maximum attachment size of ${maxSize} bytes`);
+    this.name = 'ChatAttachmentTooLargeError';
+    this.file = file;
+    this.maxSize = maxSize;
+  }
+}
+
+/**
+ * A change of an attachment of the message with the given id and sender.
+ * @internal
+ */
+export type ChatAttachmentUpdate = {
+  messageId: string;
+  messageFrom?: string;
+  attachment: ChatAttachment;
+};
+
+/**
+ * Replaces or adds the attachment of the message it belongs to. Returns the messages unchanged if
+ * none of them matches.
+ * @internal
+ */
+export function applyChatAttachment<
+  T extends Pick<ReceivedChatMessage, 'id' | 'attachments'> & {
+    from?: { identity: string };
+  },
+>(messages: T[], { messageId, messageFrom, attachment }: ChatAttachmentUpdate): T[] {
+  const index = messages.findIndex(
+    (msg) => msg.id === messageId && msg.from?.identity === messageFrom,
+  );
+  if (index === -1) {
+    return messages;
+  }
+  const message = messages[index];
+  const attachments = message.attachments ?? [];
+  const next = [...messages];
+  next[index] = {
+    ...message,
+    attachments: attachments.some(({ id }) => id === attachment.id)
+      ? attachments.map((existing) => (existing.id === attachment.id ? attachment : existing))
+      : [...attachments, attachment],
+  };
+  return next;
+}
+
+/** @internal */
+export function createChatAttachment(id: string, file: File): ChatAttachment {
+  return {
+    id,
+    name: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    progress: 0,
+    state: 'transferring',
+  };
+}
+
+/**
+ * Streams the file in chunks, so that the transfer can be cancelled in between.
+ * @internal
+ */
+export async function sendChatAttachment(
+  localParticipant: LocalParticipant,
+  file: File,
+  options: {
+    streamId: string;
+    topic: string;
+    attributes: Record<string, string>;
+    destinationIdentities?: string[];
+    signal: AbortSignal;
+    onUpdate: (attachment: ChatAttachment) => void;
+  },
+) {
+  const attachment = createChatAttachment(options.streamId, file);
+  let bytesSent = 0;
+  try {
+    const writer = await localParticipant.streamBytes({
+      streamId: options.streamId,
+      name: file.name,
+      mimeType: attachment.mimeType,
+      totalSize: file.size,
+      topic: options.topic,
+      attributes: options.attributes,
+      destinationIdentities: options.destinationIdentities,
+    });
+    const reader = file.stream().getReader();
+    try {
+      while (!options.signal.aborted) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        await writer.write(value);
+        bytesSent += value.byteLength;
+        options.onUpdate({
+          ...attachment,
+          progress: file.size ? bytesSent / file.size : undefined,
+        });
+      }
+    } finally {
+      reader.releaseLock();
+      // Receivers notice that a cancelled transfer is incomplete once the stream is closed
+      await writer.close();
+    }
+  } catch (error) {
+    options.onUpdate({ ...attachment, state: 'failed' });
+    throw error;
+  }
+  options.onUpdate(
+    options.signal.aborted
+      ? { ...attachment, progress: bytesSent / (file.size || 1), state: 'cancelled' }
+      : { ...attachment, progress: 1, state: 'complete', file },
+  );
+}
+
+/**
+ * Reads an incoming attachment of a message that is not shown, e.g. of a muted participant, and
+ * drops its chunks right away.
+ * @internal
+ */
+export async function discardChatAttachment(reader: ByteStreamReader) {
+  // The chunks still arrive, reading them keeps them from piling up in memory
+  const chunks = reader[Symbol.asyncIterator]();
+  try {
+    while (!(await chunks.next()).done) {
+      continue;
+    }
+  } catch (error) {
+    log.debug('could not read discarded chat attachment', error);
+  }
+}
+
+/** Time in ms after which an incoming attachment without new chunks counts as failed. */
+const ATTACHMENT_STALL_TIMEOUT = 30_000;
+
+/**
+ * Reads an incoming attachment. Chunks of cancelled or oversized transfers are still read but
+ * dropped, so they don't pile up in memory. Transfers the sender stopped sending without closing
+ * them, e.g. after a failure on its side, fail once they stalled for `stallTimeout` ms.
+ * @internal
+ */
+export async function receiveChatAttachment(
+  reader: ByteStreamReader,
+  options: {
+    maxSize?: number;
+    signal: AbortSignal;
+    onUpdate: (attachment: ChatAttachment) => void;
+    stallTimeout?: number;
+  },
+) {
+  const { id, name, mimeType, size } = reader.info;
+  const attachment: ChatAttachment = {
+    id,
+    name,
+    mimeType,
+    size,
+    progress: 0,
+    state: 'transferring',
+  };
+  const isTooLarge = options.maxSize !== undefined && (size ?? 0) > options.maxSize;
+  if (isTooLarge) {
+    options.onUpdate({ ...attachment, state: 'cancelled' });
+  } else {
+    options.onUpdate(attachment);
+    reader.onProgress = (progress) => {
+      if (!options.signal.aborted) {
+        options.onUpdate({ ...attachment, progress });
+      }
+    };
+  }
+
+  const stall = new AbortController();
+  let stallTimeout: ReturnType<typeof setTimeout> | undefined;
+  const watchStall = () => {
+    clearTimeout(stallTimeout);
+    stallTimeout = setTimeout(
+      () => stall.abort(new Error('attachment transfer stalled')),
+      options.stallTimeout ?? ATTACHMENT_STALL_TIMEOUT,
+    );
+  };
+
+  const chunks: Uint8Array[] = [];
+  try {
+    watchStall();
+    for await (const chunk of reader.withAbortSignal(stall.signal)) {
+      watchStall();
+      if (!isTooLarge && !options.signal.aborted) {
+        chunks.push(chunk);
+      }
+    }
+  } catch (error) {
+    const cancelled =
+      error instanceof DataStreamError && error.reason === DataStreamErrorReason.Incomplete;
+    options.onUpdate({ ...attachment, state: cancelled ? 'cancelled' : 'failed' });
+    return;
+  } finally {
+    clearTimeout(stallTimeout);
+  }
+  if (isTooLarge) {
+    return;
+  }
+  options.onUpdate(
+    options.signal.aborted
+      ? { ...attachment, state: 'cancelled' }
+      : {
+          ...attachment,
+          progress: 1,
+          state: 'complete',
+          file: new File(chunks, name, { type: mimeType }),
+        },
+  );
+}
@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'vitest';
+import { Participant } from 'livekit-client';
+import type { ReceivedChatMessage } from '../messages/types';
+import {
+  filterChatConversation,
+  getChatConversationParticipants,
+  getChatConversationPartner,
+} from './chatConversations';
+
+const local = new Participant('sid_L', 'identity_L');
+const alice = new Participant('sid_A', 'identity_A');
+const bob = new Participant('sid_B', 'identity_B');
+
+function chatMessage(
+  id: string,
+  from: Participant,
+  recipientIdentities?: string[],
+): ReceivedChatMessage {
+  return {
+    id,
+    timestamp: Number(id),
+    message: id,
+    from,
+    type: 'chatMessage',
+    isPrivate: !!recipientIdentities,
+    recipientIdentities,
+  };
+}
+
+describe('Test getChatConversationPartner', () => {
+  test('Public messages are not part of a private conversation.', () => {
+    expect(getChatConversationPartner(chatMessage('1', alice), 'identity_L')).toBeUndefined();
+  });
+
+  test('The partner of a received message is its sender.', () => {
+    expect(getChatConversationPartner(chatMessage('1', alice, ['identity_L']), 'identity_L')).toBe(
+      'identity_A',
+    );
+  });
+
+  test('The partner of a sent message is its recipient.', () => {
+    expect(getChatConversationPartner(chatMessage('1', local, ['identity_A']), 'identity_L')).toBe(
+      'identity_A',
+    );
+  });
+});
+
+describe('Test getChatConversationParticipants', () => {
+  test('Public messages have no conversation participants.', () => {
+    expect(getChatConversationParticipants(chatMessage('1', alice), 'identity_L')).toBeUndefined();
+  });
+
+  test('The sender and recipients apart from the local participant take part.', () => {
+    expect(
+      getChatConversationParticipants(
+        chatMessage('1', alice, ['identity_L', 'identity_B']),
+        'identity_L',
+      ),
+    ).toStrictEqual(['identity_A', 'identity_B']);
+  });
+});
+
+describe('Test filterChatConversation', () => {
+  test('Only the private messages with the partner are kept.', () => {
+    const messages = [
+      chatMessage('1', alice),
+      chatMessage('2', alice, ['identity_L']),
+      chatMessage('3', local, ['identity_A']),
+      chatMessage('4', bob, ['identity_L']),
+    ];
+    expect(
+      filterChatConversation(messages, 'identity_L', 'identity_A').map((msg) => msg.id),
+    ).toStrictEqual(['2', '3']);
+  });
+});
@@ -0,0 +1,49 @@
+import type { ReceivedChatMessage } from '../messages/types';
+
+/**
+ * Returns the identity of the other participant of a private conversation, `undefined` for
+ * public messages.
+ * @beta
+ */
+export function getChatConversationPartner(
+  message: Pick<ReceivedChatMessage, 'from' | 'isPrivate' | 'recipientIdentities'>,
+  localIdentity: string,
+): string | undefined {
+  if (!message.isPrivate) {
+    return undefined;
+  }
+  return message.from?.identity === localIdentity
+    ? message.recipientIdentities?.[0]
+    : message.from?.identity;
+}
+
+/**
+ * Returns the identities of the other participants a private message was exchanged with,
+ * `undefined` for public messages.
+ * @beta
+ */
+export function getChatConversationParticipants(
+  message: Pick<ReceivedChatMessage, 'from' | 'isPrivate' | 'recipientIdentities'>,
+  localIdentity: string,
+): string[] | undefined {
+  if (!message.isPrivate) {
+    return undefined;
+  }
+  return [message.from?.identity, ...(message.recipientIdentities ?? [])].filter(
+    (identity): identity is string => !!identity && identity !== localIdentity,
+  );
+}
+
+/**
+ * Returns the private messages exchanged between the local participant and the given one.
+ * @beta
+ */
+export function filterChatConversation(
+  messages: ReceivedChatMessage[],
+  localIdentity: string,
+  partnerIdentity: string,
+): ReceivedChatMessage[] {
+  return messages.filter(
+    (msg) => getChatConversationPartner(msg, localIdentity) === partnerIdentity,
+  );
+}
@@ -0,0 +1,135 @@
+import { describe, test, expect } from 'vitest';
+import { Participant } from 'livekit-client';
+import type { ReceivedChatMessage } from '../messages/types';
+import {
+  createInMemoryChatHistoryStore,
+  createLocalStorageChatHistoryStore,
+  mergeChatHistory,
+  toStoredChatMessage,
+  upsertChatMessage,
+} from './chatHistory';
+
+const alice = new Participant('sid_A', 'identity_A', 'Alice');
+const bob = new Participant('sid_B', 'identity_B', 'Bob');
+
+function chatMessage(
+  id: string,
+  from: Participant,
+  timestamp: number,
+  message = id,
+): ReceivedChatMessage {
+  return { id, timestamp, message, from, type: 'chatMessage' };
+}
+
+class FakeStorage {
+  items = new Map<string, string>();
+  getItem = (key: string) => this.items.get(key) ?? null;
+  setItem = (key: string, value: string) => void this.items.set(key, value);
+  removeItem = (key: string) => void this.items.delete(key);
+}
+
+describe('Test upsertChatMessage', () => {
+  test('A message with a new id is appended.', () => {
+    const messages = [chatMessage('1', alice, 10)];
+    expect(upsertChatMessage(messages, chatMessage('2', alice, 20))).toHaveLength(2);
+  });
+
+  test('A message with a known id and sender is applied as an edit.', () => {
+    const messages = [chatMessage('1', alice, 10, 'helo')];
+    expect(upsertChatMessage(messages, chatMessage('1', alice, 20, 'hello'))).toStrictEqual([
+      { ...chatMessage('1', alice, 10, 'hello'), editTimestamp: 20 },
+    ]);
+  });
+
+  test('An edit keeps the attributes of the original message.', () => {
+    const messages = [{ ...chatMessage('1', alice, 10), attributes: { topic: 'news' } }];
+    const deleted = {
+      ...chatMessage('1', alice, 20, ''),
+      attributes: { 'lk.chat.deleted': 'true' },
+    };
+    expect(upsertChatMessage(messages, deleted)[0].attributes).toStrictEqual({
+      topic: 'news',
+      'lk.chat.deleted': 'true',
+    });
+  });
+
+  test('An edit of an unknown message is ignored.', () => {
+    const messages = [chatMessage('1', alice, 10)];
+    const edit = { ...chatMessage('2', alice, 20), editTimestamp: 20 };
+    expect(upsertChatMessage(messages, edit)).toBe(messages);
+  });
+
+  test('The same id from another sender is a different message.', () => {
+    const messages = [chatMessage('1', alice, 10)];
+    expect(upsertChatMessage(messages, chatMessage('1', bob, 20))).toHaveLength(2);
+  });
+});
+
+describe('Test mergeChatHistory', () => {
+  test('Stored messages are added in the order they were sent.', () => {
+    const live = [chatMessage('3', bob, 30)];
+    const history = [chatMessage('1', alice, 10), chatMessage('2', bob, 20)];
+    expect(mergeChatHistory(live, history).map((msg) => msg.id)).toStrictEqual(['1', '2', '3']);
+  });
+
+  test('Messages that were received live are not duplicated.', () => {
+    const live = [chatMessage('1', alice, 10, 'edited')];
+    const merged = mergeChatHistory(live, [chatMessage('1', alice, 10, 'original')]);
+    expect(merged).toBe(live);
+  });
+});
+
+describe('Test chat history stores', () => {
+  test.each([
+    { name: 'in memory', create: () => createInMemoryChatHistoryStore() },
+    {
+      name: 'local storage',
+      create: () =>
+        createLocalStorageChatHistoryStore('room', { storage: new FakeStorage() as Storage }),
+    },
+  ])('The $name store appends, updates and clears messages.', async ({ create }) => {
+    const store = create();
+    const first = toStoredChatMessage(chatMessage('1', alice, 10, 'helo'));
+    await store.append(first);
+    await store.append(toStoredChatMessage(chatMessage('1', bob, 20)));
+    await store.update({ ...first, message: 'hello', editTimestamp: 30 });
+
+    expect(await store.load()).toStrictEqual([
+      {
+        id: '1',
+        timestamp: 10,
+        message: 'hello',
+        editTimestamp: 30,
+        type: 'chatMessage',
+        from: { identity: 'identity_A', name: 'Alice' },
+      },
+      {
+        id: '1',
+        timestamp: 20,
+        message: '1',
+        type: 'chatMessage',
+        from: { identity: 'identity_B', name: 'Bob' },
+      },
+    ]);
+
+    await store.clear();
+    expect(await store.load()).toStrictEqual([]);
+  });
+
+  test('The local storage store drops the oldest messages beyond its limit.', async () => {
+    const storage = new FakeStorage() as Storage;
+    const store = createLocalStorageChatHistoryStore('room', { storage, maxMessages: 2 });
+    for (const id of ['1', '2', '3']) {
+      await store.append(toStoredChatMessage(chatMessage(id, alice, Number(id))));
+    }
+    expect((await store.load()).map((msg) => msg.id)).toStrictEqual(['2', '3']);
+  });
+
+  test('Histories of different rooms are kept apart.', async () => {
+    const storage = new FakeStorage() as Storage;
+    await createLocalStorageChatHistoryStore('a', { storage }).append(
+      toStoredChatMessage(chatMessage('1', alice, 10)),
+    );
+    expect(await createLocalStorageChatHistoryStore('b', { storage }).load()).toStrictEqual([]);
+  });
+});
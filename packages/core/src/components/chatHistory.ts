@@ -0,0 +1,254 @@
+import type { Room } from 'livekit-client';
+import { Participant } from 'livekit-client';
+import type { ReceivedChatMessage } from '../messages/types';
+
+/**
+ * A chat message in a form that can be serialized. Attached files are not persisted.
+ * @beta
+ */
+export type StoredChatMessage = Omit<
+  ReceivedChatMessage,
+  'from' | 'attachedFiles' | 'attachments'
+> & {
+  from?: { identity: string; name?: string };
+};
+
+/**
+ * Persists the chat history, so that it survives page reloads and rejoining the room.
+ * Messages are identified by their `id` together with the identity of their sender.
+ * @beta
+ */
+export interface ChatHistoryStore {
+  /** Returns the stored messages in the order they were sent. */
+  load(): Promise<StoredChatMessage[]>;
+  append(message: StoredChatMessage): Promise<void>;
+  /** Replaces the stored message with the same id and sender, e.g. after an edit. */
+  update(message: StoredChatMessage): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** @internal */
+export function isSameChatMessage(
+  a: Pick<StoredChatMessage | ReceivedChatMessage, 'id' | 'from'>,
+  b: Pick<StoredChatMessage | ReceivedChatMessage, 'id' | 'from'>,
+) {
+  return a.id === b.id && a.from?.identity === b.from?.identity;
+}
+
+/**
+ * Appends the message, or applies it as an edit to the message with the same id and sender.
+ * Edits of unknown messages, e.g. of private messages to others, are ignored.
+ * @internal
+ */
+export function upsertChatMessage<T extends StoredChatMessage | ReceivedChatMessage>(
+  messages: T[],
+  message: T,
+): T[] {
+  const index = 'id' in message ? messages.findIndex((msg) => isSameChatMessage(msg, message)) : -1;
+  if (index === -1) {
+    return message.editTimestamp === undefined ? [...messages, message] : messages;
+  }
+  const previous = messages[index];
+  const next = [...messages];
+  // Updates don't repeat the files and attributes of the original message
+  next[index] = {
+    ...previous,
+    ...message,
+    ...(previous.attributes || message.attributes
+      ? { attributes: { ...previous.attributes, ...message.attributes } }
+      : {}),
+    timestamp: previous.timestamp,
+    editTimestamp: message.timestamp,
+  };
+  return next;
+}
+
+/**
+ * Adds the messages of the history that are not known yet and restores the order they were sent in.
+ * @internal
+ */
+export function mergeChatHistory(
+  messages: ReceivedChatMessage[],
+  history: ReceivedChatMessage[],
+): ReceivedChatMessage[] {
+  const missing = history.filter(
+    (stored) => !messages.some((msg) => isSameChatMessage(msg, stored)),
+  );
+  if (missing.length === 0) {
+    return messages;
+  }
+  return [...missing, ...messages].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** @internal */
+export function getChatMessageKey(message: Pick<StoredChatMessage, 'id' | 'from'>) {
+  return `${message.from?.identity ?? ''}|${message.id}`;
+}
+
+/** @internal */
+export function toStoredChatMessage(message: ReceivedChatMessage): StoredChatMessage {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { from, attachedFiles, attachments, ...rest } = message;
+  return {
+    ...rest,
+    from: from ? { identity: from.identity, name: from.name } : undefined,
+  };
+}
+
+/**
+ * Resolves the sender of a stored message to a participant of the room. Senders who are not in
+ * the room (anymore) get a stub as `from`: a detached participant without sid, tracks or events
+ * that only carries their identity and name.
+ * @internal
+ */
+export function fromStoredChatMessage(message: StoredChatMessage, room: Room): ReceivedChatMessage {
+  let from: Participant | undefined;
+  if (message.from) {
+    const { identity, name } = message.from;
+    from =
+      identity === room.localParticipant.identity
+        ? room.localParticipant
+        : (room.getParticipantByIdentity(identity) ?? new Participant('', identity, name));
+  }
+  return { ...message, from };
+}
+
+/**
+ * Keeps the chat history in memory, e.g. to keep it across `Chat` remounts or in tests.
+ * @beta
+ */
+export function createInMemoryChatHistoryStore(): ChatHistoryStore {
+  let messages: StoredChatMessage[] = [];
+  return {
+    load: async () => [...messages],
+    append: async (message) => {
+      messages = [...messages, message];
+    },
+    update: async (message) => {
+      messages = messages.map((msg) => (isSameChatMessage(msg, message) ? message : msg));
+    },
+    clear: async () => {
+      messages = [];
+    },
+  };
+}
+
+/** @beta */
+export interface LocalStorageChatHistoryOptions {
+  /** @defaultValue `window.localStorage` */
+  storage?: Storage;
+  /**
+   * Oldest messages are dropped beyond this number, as the storage quota is usually small.
+   * @defaultValue 500
+   */
+  maxMessages?: number;
+}
+
+/**
+ * Keeps the chat history in the local storage of the browser.
+ * @param key - Identifies the history, e.g. the name of the room.
+ * @beta
+ */
+export function createLocalStorageChatHistoryStore(
+  key: string,
+  { storage, maxMessages = 500 }: LocalStorageChatHistoryOptions = {},
+): ChatHistoryStore {
+  const storageKey = `lk-chat-history:${key}`;
+  const getStorage = () => storage ?? globalThis.localStorage;
+  const read = (): StoredChatMessage[] => {
+    try {
+      return JSON.parse(getStorage().getItem(storageKey) ?? '[]');
+    } catch {
+      return [];
+    }
+  };
+  const write = (messages: StoredChatMessage[]) =>
+    getStorage().setItem(storageKey, JSON.stringify(messages.slice(-maxMessages)));
+
+  return {
+    load: async () => read(),
+    append: async (message) => write([...read(), message]),
+    update: async (message) =>
+      write(read().map((msg) => (isSameChatMessage(msg, message) ? message : msg))),
+    clear: async () => getStorage().removeItem(storageKey),
+  };
+}
+
+/** @beta */
+export interface IndexedDBChatHistoryOptions {
+  /** @defaultValue 'lk-chat-history' */
+  databaseName?: string;
+}
+
+const CHAT_HISTORY_OBJECT_STORE = 'messages';
+const CHAT_HISTORY_INDEX = 'historyKey';
+
+type IndexedDBChatRecord = {
+  key: string;
+  historyKey: string;
+  message: StoredChatMessage;
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Keeps the chat history in IndexedDB, which allows for much larger histories than the local
+ * storage.
+ * @param key - Identifies the history, e.g. the name of the room.
+ * @beta
+ */
+export function createIndexedDBChatHistoryStore(
+  key: string,
+  { databaseName = 'lk-chat-history' }: IndexedDBChatHistoryOptions = {},
+): ChatHistoryStore {
+  let database: Promise<IDBDatabase> | undefined;
+  const openDatabase = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(CHAT_HISTORY_OBJECT_STORE, {
+          keyPath: 'key',
+        });
+        store.createIndex(CHAT_HISTORY_INDEX, CHAT_HISTORY_INDEX);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+  const getStore = async (mode: IDBTransactionMode) =>
+    (await openDatabase())
+      .transaction(CHAT_HISTORY_OBJECT_STORE, mode)
+      .objectStore(CHAT_HISTORY_OBJECT_STORE);
+  const toRecord = (message: StoredChatMessage): IndexedDBChatRecord => ({
+    key: `${key}|${getChatMessageKey(message)}`,
+    historyKey: key,
+    message,
+  });
+
+  return {
+    load: async () => {
+      const store = await getStore('readonly');
+      const records = await requestToPromise<IndexedDBChatRecord[]>(
+        store.index(CHAT_HISTORY_INDEX).getAll(key),
+      );
+      return records.map((record) => record.message).sort((a, b) => a.timestamp - b.timestamp);
+    },
+    append: async (message) => {
+      await requestToPromise((await getStore('readwrite')).put(toRecord(message)));
+    },
+    update: async (message) => {
+      await requestToPromise((await getStore('readwrite')).put(toRecord(message)));
+    },
+    clear: async () => {
+      const store = await getStore('readwrite');
+      const keys = await requestToPromise(store.index(CHAT_HISTORY_INDEX).getAllKeys(key));
+      await Promise.all(keys.map((recordKey) => requestToPromise(store.delete(recordKey))));
+    },
+  };
+}
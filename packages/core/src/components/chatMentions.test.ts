@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'vitest';
+import { Participant } from 'livekit-client';
+import {
+  getChatMessageMentions,
+  getMentionQuery,
+  insertMention,
+  isChatMessageMentioning,
+} from './chatMentions';
+
+describe('Test getChatMessageMentions', () => {
+  test('Mentions are returned once, without the @.', () => {
+    expect(getChatMessageMentions('@alice and @bob.smith, ping @alice.')).toStrictEqual([
+      'alice',
+      'bob.smith',
+    ]);
+  });
+
+  test('Emails and mentions within code are ignored.', () => {
+    expect(getChatMessageMentions('mail alice@example.com or run `@bob`')).toStrictEqual([]);
+  });
+});
+
+describe('Test isChatMessageMentioning', () => {
+  test('Own messages never mention the local participant.', () => {
+    const alice = new Participant('sid_A', 'alice');
+    const bob = new Participant('sid_B', 'bob');
+    expect(isChatMessageMentioning({ message: 'hi @alice', from: bob }, 'alice')).toBe(true);
+    expect(isChatMessageMentioning({ message: 'I am @alice', from: alice }, 'alice')).toBe(false);
+  });
+});
+
+describe('Test getMentionQuery', () => {
+  test('Only a mention right before the caret is a query.', () => {
+    expect(getMentionQuery('hi @al', 6)).toStrictEqual({ query: 'al', start: 3 });
+    expect(getMentionQuery('@', 1)).toStrictEqual({ query: '', start: 0 });
+    expect(getMentionQuery('hi @al there', 12)).toBeUndefined();
+    expect(getMentionQuery('mail@ex', 7)).toBeUndefined();
+  });
+});
+
+describe('Test insertMention', () => {
+  test('The query is replaced by the mention followed by a space.', () => {
+    const text = 'hi @al how are you';
+    expect(insertMention(text, { query: 'al', start: 3 }, 'alice')).toStrictEqual({
+      text: 'hi @alice how are you',
+      caret: 10,
+    });
+  });
+});
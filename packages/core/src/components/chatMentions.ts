@@ -0,0 +1,66 @@
+import type { ReceivedChatMessage } from '../messages/types';
+import { createRichTextGrammar, tokenize } from '../helper/tokenizer';
+
+/**
+ * A mention that is being typed, from the `@` up to the caret.
+ * @beta
+ */
+export type MentionQuery = {
+  /** The text typed after the `@`. */
+  query: string;
+  /** The index of the `@` in the input. */
+  start: number;
+};
+
+/**
+ * Returns the identities mentioned in the message, in order and without duplicates. Mentions
+ * within code are ignored.
+ * @beta
+ */
+export function getChatMessageMentions(message: string): string[] {
+  const identities = tokenize(message, createRichTextGrammar())
+    .filter((token) => typeof token !== 'string' && token.type === 'mention')
+    .map((token) => (token as { content: string }).content.slice(1));
+  return [...new Set(identities)];
+}
+
+/**
+ * Whether the message of another participant mentions the given identity.
+ * @beta
+ */
+export function isChatMessageMentioning(
+  message: Pick<ReceivedChatMessage, 'message' | 'from'>,
+  identity: string,
+): boolean {
+  return (
+    message.from?.identity !== identity &&
+    getChatMessageMentions(message.message).includes(identity)
+  );
+}
+
+/**
+ * Returns the mention that is being typed at the caret, if any.
+ * @beta
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | undefined {
+  const match = /(?:^|\s)@([\w.-]*)$/.exec(text.slice(0, caret));
+  if (!match) {
+    return undefined;
+  }
+  return { query: match[1], start: caret - match[1].length - 1 };
+}
+
+/**
+ * Replaces the mention that is being typed with the complete one. Returns the new text and the
+ * caret position after the mention.
+ * @beta
+ */
+export function insertMention(
+  text: string,
+  { start, query }: MentionQuery,
+  identity: string,
+): { text: string; caret: number } {
+  const before = `${text.slice(0, start)}@${identity} `;
+  const after = text.slice(start + query.length + 1).replace(/^ /, '');
+  return { text: before + after, caret: before.length };
+}
@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest';
+import type { Room } from 'livekit-client';
+import { ParticipantPermission } from '@livekit/protocol';
+import { Participant } from 'livekit-client';
+import type { ReceivedChatMessage } from '../messages/types';
+import {
+  applyChatMiddleware,
+  ChatMessageRejectedError,
+  CHAT_MODERATOR_METADATA_KEY,
+  ChatModerationAttributes,
+  createLinkBlocker,
+  createMaxLengthFilter,
+  createWordFilter,
+  getChatMutedIdentities,
+  isChatModerator,
+} from './chatModeration';
+
+const context = { room: {} as Room, direction: 'inbound' as const };
+
+function chatMessage(message: string): ReceivedChatMessage {
+  return { id: '1', timestamp: 1000, message, type: 'chatMessage' };
+}
+
+describe('Test applyChatMiddleware', () => {
+  test('Middleware runs in order and can drop messages.', () => {
+    const upper = (msg: ReceivedChatMessage) => ({ ...msg, message: msg.message.toUpperCase() });
+    const exclaim = (msg: ReceivedChatMessage) => ({ ...msg, message: `${msg.message}!` });
+    expect(applyChatMiddleware(chatMessage('hi'), [upper, exclaim], context)?.message).toBe('HI!');
+    expect(applyChatMiddleware(chatMessage('hi'), [() => undefined, upper], context)).toBe(
+      undefined,
+    );
+  });
+});
+
+describe('Test the built-in filters', () => {
+  test('Words are masked, rejected or flagged.', () => {
+    const message = chatMessage('What the Heck, heckler');
+    expect(createWordFilter(['heck'])(message, context)?.message).toBe('What the ****, heckler');
+    expect(() => createWordFilter(['heck'], { action: 'reject' })(message, context)).toThrow(
+      ChatMessageRejectedError,
+    );
+    expect(createWordFilter(['heck'], { action: 'flag' })(message, context)?.flags).toStrictEqual([
+      'word',
+    ]);
+  });
+
+  test('Links are rejected or removed.', () => {
+    const message = chatMessage('see https://example.com');
+    expect(() => createLinkBlocker()(message, context)).toThrow(ChatMessageRejectedError);
+    expect(createLinkBlocker({ action: 'remove' })(message, context)?.message).toBe(
+      'see [link removed]',
+    );
+  });
+
+  test('Long messages are rejected or truncated.', () => {
+    expect(() => createMaxLengthFilter(3)(chatMessage('four'), context)).toThrow(
+      ChatMessageRejectedError,
+    );
+    expect(
+      createMaxLengthFilter(3, { action: 'truncate' })(chatMessage('four'), context)?.message,
+    ).toBe('fou');
+  });
+});
+
+function participant(
+  identity: string,
+  { metadata, canUpdateMetadata = true }: { metadata?: object; canUpdateMetadata?: boolean },
+  attributes?: Record<string, string>,
+) {
+  const result = new Participant(
+    `sid_${identity}`,
+    identity,
+    undefined,
+    metadata && JSON.stringify(metadata),
+    attributes,
+  );
+  result.permissions = new ParticipantPermission({ canUpdateMetadata });
+  return result;
+}
+
+describe('Test isChatModerator', () => {
+  test('The role is granted through the metadata of the token.', () => {
+    const metadata = { [CHAT_MODERATOR_METADATA_KEY]: true };
+    expect(isChatModerator(participant('host', { metadata }))).toBe(true);
+    expect(isChatModerator(participant('bob', {}))).toBe(false);
+  });
+
+  test('Participants without the permission to store mutes are no moderators.', () => {
+    const metadata = { [CHAT_MODERATOR_METADATA_KEY]: true };
+    expect(isChatModerator(participant('host', { metadata, canUpdateMetadata: false }))).toBe(
+      false,
+    );
+  });
+
+  test('The moderator attribute does not grant the role.', () => {
+    expect(isChatModerator(participant('bob', {}, { [CHAT_MODERATOR_METADATA_KEY]: 'true' }))).toBe(
+      false,
+    );
+  });
+});
+
+describe('Test getChatMutedIdentities', () => {
+  test('Only mutes of moderators apply.', () => {
+    const moderator = participant(
+      'host',
+      { metadata: { [CHAT_MODERATOR_METADATA_KEY]: true } },
+      { [ChatModerationAttributes.MutedIdentities]: '["bob"]' },
+    );
+    const other = participant(
+      'bob',
+      {},
+      { [ChatModerationAttributes.MutedIdentities]: '["host"]' },
+    );
+    const room = {
+      localParticipant: other,
+      remoteParticipants: new Map([['host', moderator]]),
+    } as unknown as Pick<Room, 'localParticipant' | 'remoteParticipants'>;
+    expect([...getChatMutedIdentities(room)]).toStrictEqual(['bob']);
+  });
+});
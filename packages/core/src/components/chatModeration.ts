@@ -0,0 +1,229 @@
+import type { Participant, Room } from 'livekit-client';
+import type { ReceivedChatMessage } from '../messages/types';
+import { createUrlRegExp } from '../helper/url-regex';
+import { log } from '../logger';
+
+/**
+ * Participant attributes the chat moderation is based on.
+ * @beta
+ */
+export enum ChatModerationAttributes {
+  /** JSON array of the identities a moderator muted in the chat. */
+  MutedIdentities = 'lk.chat.muted_identities',
+}
+
+/**
+ * Key of the participant metadata, a JSON object set through the access token, that grants the
+ * chat moderator role, e.g. `{"lk.chat.moderator": true}`.
+ * @beta
+ */
+export const CHAT_MODERATOR_METADATA_KEY = 'lk.chat.moderator';
+
+/** @beta */
+export type ChatMiddlewareContext = {
+  room: Room;
+  /** Whether the message is about to be sent or was received. */
+  direction: 'inbound' | 'outbound';
+};
+
+/**
+ * Moderates a chat message. Returns the message to continue with, which may be transformed or
+ * flagged, or `undefined` to drop it. Throwing a `ChatMessageRejectedError` drops the message
+ * as well, and lets the sender know why.
+ * @beta
+ */
+export type ChatMiddleware = (
+  message: ReceivedChatMessage,
+  context: ChatMiddlewareContext,
+) => ReceivedChatMessage | undefined;
+
+/**
+ * Thrown by `send` and `edit` if the message was rejected by the outbound middleware, or if the
+ * local participant is muted in the chat.
+ * @beta
+ */
+export class ChatMessageRejectedError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`chat message rejected: ${reason}`);
+    this.name = 'ChatMessageRejectedError';
+    this.reason = reason;
+  }
+}
+
+/** What a filter does with a message that violates it. @beta */
+export type ChatFilterAction = 'reject' | 'flag';
+
+/**
+ * Runs the message through the middleware in order. Returns `undefined` if one of them dropped
+ * it.
+ * @beta
+ */
+export function applyChatMiddleware(
+  message: ReceivedChatMessage,
+  middleware: ChatMiddleware[],
+  context: ChatMiddlewareContext,
+): ReceivedChatMessage | undefined {
+  let result: ReceivedChatMessage | undefined = message;
+  for (const next of middleware) {
+    result = next(result, context);
+    if (!result) {
+      return undefined;
+    }
+  }
+  return result;
+}
+
+/**
+ * Adds the reason to the flags of the message.
+ * @beta
+ */
+export function flagChatMessage(message: ReceivedChatMessage, reason: string): ReceivedChatMessage {
+  return message.flags?.includes(reason)
+    ? message
+    : { ...message, flags: [...(message.flags ?? []), reason] };
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Filters whole words, ignoring case. By default they are masked with asterisks.
+ * @beta
+ */
+export function createWordFilter(
+  words: string[],
+  { action = 'mask' }: { action?: ChatFilterAction | 'mask' } = {},
+): ChatMiddleware {
+  if (words.length === 0) {
+    return (message) => message;
+  }
+  const regExp = new RegExp(`\\b(?:${words.map(escapeRegExp).join('|')})\\b`, 'gi');
+  return (message) => {
+    const masked = message.message.replace(regExp, (word) => '*'.repeat(word.length));
+    if (masked === message.message) {
+      return message;
+    }
+    if (action === 'reject') {
+      throw new ChatMessageRejectedError('the message contains a blocked word');
+    }
+    return action === 'flag' ? flagChatMessage(message, 'word') : { ...message, message: masked };
+  };
+}
+
+/**
+ * Blocks links in messages. By default such messages are rejected.
+ * @beta
+ */
+export function createLinkBlocker({
+  action = 'reject',
+}: { action?: ChatFilterAction | 'remove' } = {}): ChatMiddleware {
+  return (message) => {
+    const withoutLinks = message.message.replace(createUrlRegExp({}), '[link removed]');
+    if (withoutLinks === message.message) {
+      return message;
+    }
+    if (action === 'reject') {
+      throw new ChatMessageRejectedError('links are not allowed');
+    }
+    return action === 'flag'
+      ? flagChatMessage(message, 'link')
+      : { ...message, message: withoutLinks };
+  };
+}
+
+/**
+ * Limits the number of characters of messages. By default longer messages are rejected.
+ * @beta
+ */
+export function createMaxLengthFilter(
+  maxLength: number,
+  { action = 'reject' }: { action?: ChatFilterAction | 'truncate' } = {},
+): ChatMiddleware {
+  return (message) => {
+    if (message.message.length <= maxLength) {
+      return message;
+    }
+    if (action === 'reject') {
+      throw new ChatMessageRejectedError(`messages are limited to ${maxLength} characters`);
+    }
+    return action === 'flag'
+      ? flagChatMessage(message, 'length')
+      : { ...message, message: message.message.slice(0, maxLength) };
+  };
+}
+
+/**
+ * Moderators are granted the role through the metadata of their access token, together with the
+ * `canUpdateOwnMetadata` permission they need to store mutes. As that permission also lets them
+ * change their metadata, the role relies on only trusted participants being granted it.
+ * @beta
+ */
+export function isChatModerator(participant: Participant): boolean {
+  if (!participant.permissions?.canUpdateMetadata || !participant.metadata) {
+    return false;
+  }
+  try {
+    return JSON.parse(participant.metadata)?.[CHAT_MODERATOR_METADATA_KEY] === true;
+  } catch {
+    return false;
+  }
+}
+
+function parseMutedIdentities(participant: Participant): string[] {
+  const muted = participant.attributes[ChatModerationAttributes.MutedIdentities];
+  if (!muted) {
+    return [];
+  }
+  try {
+    const identities = JSON.parse(muted);
+    return Array.isArray(identities) ? identities : [];
+  } catch (e) {
+    log.warn('could not decode chat muted identities', e);
+    return [];
+  }
+}
+
+/**
+ * Returns the identities muted by any moderator in the room. As the mutes are attributes of the
+ * moderators, they apply again when the muted participant reconnects, but are lifted once the
+ * moderator leaves the room.
+ * @beta
+ */
+export function getChatMutedIdentities(
+  room: Pick<Room, 'localParticipant' | 'remoteParticipants'>,
+): Set<string> {
+  return new Set(
+    [room.localParticipant, ...room.remoteParticipants.values()]
+      .filter(isChatModerator)
+      .flatMap(parseMutedIdentities),
+  );
+}
+
+/** @beta */
+export function isChatMuted(room: Room, identity: string): boolean {
+  return getChatMutedIdentities(room).has(identity);
+}
+
+/**
+ * Mutes or unmutes the participant in the chat for everyone, by updating the attributes of the
+ * local participant, who has to be a moderator. Mutes are enforced by the clients only: the
+ * server still delivers the messages of muted participants, the chat of the receivers drops them.
+ * @beta
+ */
+export async function setChatMuted(room: Room, identity: string, muted: boolean) {
+  if (!isChatModerator(room.localParticipant)) {
+    throw new Error('only chat moderators can mute participants');
+  }
+  const identities = new Set(parseMutedIdentities(room.localParticipant));
+  if (muted) {
+    identities.add(identity);
+  } else {
+    identities.delete(identity);
+  }
+  await room.localParticipant.setAttributes({
+    [ChatModerationAttributes.MutedIdentities]: JSON.stringify([...identities]),
+  });
+}
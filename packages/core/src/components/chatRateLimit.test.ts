@@ -0,0 +1,21 @@
+import { describe, test, expect } from 'vitest';
+import { createChatRateLimiter } from './chatRateLimit';
+
+describe('Test createChatRateLimiter', () => {
+  test('Messages beyond the limit are not allowed until the window moved on.', () => {
+    const limiter = createChatRateLimiter({ maxMessages: 2, interval: 1000 });
+    expect(limiter.take(0)).toStrictEqual({ allowed: true, limitedUntil: 0 });
+    expect(limiter.take(100)).toStrictEqual({ allowed: true, limitedUntil: 1000 });
+    expect(limiter.take(500)).toStrictEqual({ allowed: false, limitedUntil: 1000 });
+    expect(limiter.take(1000)).toStrictEqual({ allowed: true, limitedUntil: 1100 });
+  });
+
+  test('Messages that are not allowed do not extend the limit.', () => {
+    const limiter = createChatRateLimiter({ maxMessages: 1, interval: 1000 });
+    limiter.take(0);
+    for (let now = 100; now < 1000; now += 100) {
+      expect(limiter.take(now).allowed).toBe(false);
+    }
+    expect(limiter.take(1000).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Allows at most `maxMessages` messages within any `interval` milliseconds.
+ * @beta
+ */
+export interface ChatRateLimitOptions {
+  maxMessages: number;
+  interval: number;
+}
+
+/** @beta */
+export interface ChatFloodProtectionOptions extends ChatRateLimitOptions {
+  /**
+   * What happens to the messages a participant sends beyond the limit. They are either dropped,
+   * or collapsed into a single message flagged as `'flood'` that shows the latest of them.
+   * @defaultValue 'drop'
+   */
+  mode?: 'drop' | 'collapse';
+}
+
+/**
+ * Thrown by `send` and `edit` if the local participant exceeded the send rate limit.
+ * @beta
+ */
+export class ChatRateLimitError extends Error {
+  /** Milliseconds until the next message may be sent. */
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super(`chat rate limit exceeded, retry in ${retryAfter}ms`);
+    this.name = 'ChatRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** @beta */
+export type ChatRateLimitSlot = {
+  /** Whether the message may be sent. Messages that are not allowed don't count to the limit. */
+  allowed: boolean;
+  /** When the next message may be sent, `0` if it may be sent right away. */
+  limitedUntil: number;
+};
+
+/**
+ * Creates a sliding window rate limiter. Each call of `take` counts a message sent at `now`.
+ * @beta
+ */
+export function createChatRateLimiter({ maxMessages, interval }: ChatRateLimitOptions) {
+  let timestamps: number[] = [];
+
+  const take = (now: number): ChatRateLimitSlot => {
+    timestamps = timestamps.filter((timestamp) => timestamp > now - interval);
+    const allowed = timestamps.length < maxMessages;
+    if (allowed) {
+      timestamps.push(now);
+    }
+    // The next message may be sent once the oldest one of a full window expired
+    return {
+      allowed,
+      limitedUntil: timestamps.length >= maxMessages ? timestamps[0] + interval : 0,
+    };
+  };
+
+  return { take };
+}
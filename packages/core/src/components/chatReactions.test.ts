@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'vitest';
+import { Participant } from 'livekit-client';
+import type { ReceivedChatMessage } from '../messages/types';
+import {
+  applyChatReaction,
+  decodeChatReaction,
+  encodeChatReaction,
+  hasReacted,
+} from './chatReactions';
+
+const alice = new Participant('sid_A', 'identity_A', 'Alice');
+const bob = new Participant('sid_B', 'identity_B', 'Bob');
+
+const message: ReceivedChatMessage = {
+  id: '1',
+  timestamp: 10,
+  message: 'hello',
+  from: alice,
+  type: 'chatMessage',
+};
+
+describe('Test chat reaction encoding', () => {
+  test('A reaction survives encoding and decoding.', () => {
+    const reaction = {
+      messageId: '1',
+      messageFrom: 'identity_A',
+      emoji: '👍',
+      action: 'add',
+    } as const;
+    expect(decodeChatReaction(encodeChatReaction(reaction))).toStrictEqual(reaction);
+  });
+
+  test('Invalid payloads are ignored.', () => {
+    expect(decodeChatReaction(new TextEncoder().encode('not json'))).toBeUndefined();
+    expect(
+      decodeChatReaction(new TextEncoder().encode(JSON.stringify({ messageId: '1', emoji: '👍' }))),
+    ).toBeUndefined();
+  });
+});
+
+describe('Test applyChatReaction', () => {
+  const reaction = {
+    messageId: '1',
+    messageFrom: 'identity_A',
+    emoji: '👍',
+    action: 'add',
+    identity: 'identity_B',
+  } as const;
+
+  test('Reactions are aggregated per emoji.', () => {
+    let messages = applyChatReaction([message], reaction);
+    messages = applyChatReaction(messages, { ...reaction, identity: 'identity_A' });
+    messages = applyChatReaction(messages, { ...reaction, emoji: '🎉' });
+    expect(messages[0].reactions).toStrictEqual({
+      '👍': ['identity_B', 'identity_A'],
+      '🎉': ['identity_B'],
+    });
+  });
+
+  test('Reacting twice with the same emoji counts once.', () => {
+    const messages = applyChatReaction(applyChatReaction([message], reaction), reaction);
+    expect(messages[0].reactions).toStrictEqual({ '👍': ['identity_B'] });
+  });
+
+  test('Removing the last reaction removes the emoji.', () => {
+    const messages = applyChatReaction(applyChatReaction([message], reaction), {
+      ...reaction,
+      action: 'remove',
+    });
+    expect(messages[0].reactions).toStrictEqual({});
+    expect(hasReacted(messages[0], '👍', 'identity_B')).toBe(false);
+  });
+
+  test('Reactions to messages of another sender are not applied.', () => {
+    const messages = [{ ...message, from: bob }];
+    expect(applyChatReaction(messages, reaction)).toBe(messages);
+  });
+});
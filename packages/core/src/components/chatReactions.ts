@@ -0,0 +1,90 @@
+import type { ReceivedChatMessage } from '../messages/types';
+import type { StoredChatMessage } from './chatHistory';
+import { log } from '../logger';
+
+/**
+ * Identities of the participants that reacted to a chat message, by emoji.
+ * @beta
+ */
+export type ChatMessageReactions = NonNullable<ReceivedChatMessage['reactions']>;
+
+/**
+ * A reaction to a chat message, as sent on the reactions topic of the chat.
+ * @beta
+ */
+export interface ChatReaction {
+  messageId: string;
+  /** Identity of the sender of the message that is reacted to. */
+  messageFrom?: string;
+  emoji: string;
+  action: 'add' | 'remove';
+}
+
+/** @beta */
+export interface ReceivedChatReaction extends ChatReaction {
+  /** Identity of the participant that reacted. */
+  identity: string;
+}
+
+export function encodeChatReaction(reaction: ChatReaction): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(reaction));
+}
+
+/**
+ * Decodes a chat reaction payload. Returns `undefined` for payloads that are not valid reactions
+ * instead of throwing.
+ */
+export function decodeChatReaction(payload: Uint8Array): ChatReaction | undefined {
+  try {
+    const reaction = JSON.parse(new TextDecoder().decode(payload));
+    return typeof reaction?.messageId === 'string' &&
+      typeof reaction?.emoji === 'string' &&
+      (reaction.action === 'add' || reaction.action === 'remove')
+      ? reaction
+      : undefined;
+  } catch (error) {
+    log.warn('could not decode chat reaction', error);
+    return undefined;
+  }
+}
+
+/** @beta */
+export function hasReacted(
+  message: Pick<ReceivedChatMessage, 'reactions'>,
+  emoji: string,
+  identity: string,
+) {
+  return !!message.reactions?.[emoji]?.includes(identity);
+}
+
+/**
+ * Applies the reaction to the message it refers to. Returns the messages unchanged if none of them
+ * matches.
+ * @internal
+ */
+export function applyChatReaction<
+  T extends Pick<StoredChatMessage | ReceivedChatMessage, 'id' | 'from' | 'reactions'>,
+>(messages: T[], reaction: ReceivedChatReaction): T[] {
+  const index = messages.findIndex(
+    (msg) => msg.id === reaction.messageId && msg.from?.identity === reaction.messageFrom,
+  );
+  if (index === -1) {
+    return messages;
+  }
+  const message = messages[index];
+  const identities = (message.reactions?.[reaction.emoji] ?? []).filter(
+    (identity) => identity !== reaction.identity,
+  );
+  if (reaction.action === 'add') {
+    identities.push(reaction.identity);
+  }
+  const reactions = { ...message.reactions };
+  if (identities.length > 0) {
+    reactions[reaction.emoji] = identities;
+  } else {
+    delete reactions[reaction.emoji];
+  }
+  const next = [...messages];
+  next[index] = { ...message, reactions };
+  return next;
+}
@@ -0,0 +1,89 @@
+import { describe, test, expect, vi } from 'vitest';
+import type { LocalParticipant } from 'livekit-client';
+import { Participant, Room, RoomEvent } from 'livekit-client';
+import { firstValueFrom, skip } from 'rxjs';
+import type { ReceivedChatMessage } from '../messages/types';
+import { DataTopic } from '../observables/dataChannel';
+import { setupChat } from './chat';
+import {
+  countUnreadChatMessages,
+  getChatMessageSeenBy,
+  setupChatReadState,
+} from './chatReadReceipts';
+
+const local = new Participant('sid_L', 'identity_L');
+const alice = new Participant('sid_A', 'identity_A');
+
+function chatMessage(timestamp: number, from: Participant): ReceivedChatMessage {
+  return { id: String(timestamp), timestamp, message: 'hi', from, type: 'chatMessage' };
+}
+
+describe('Test getChatMessageSeenBy', () => {
+  const readTimestamps = new Map([
+    ['identity_A', 20],
+    ['identity_B', 10],
+    ['identity_L', 30],
+  ]);
+
+  test('Participants that read up to or past the message have seen it.', () => {
+    expect(getChatMessageSeenBy(chatMessage(20, local), readTimestamps)).toStrictEqual([
+      'identity_A',
+    ]);
+  });
+
+  test('The sender is not listed.', () => {
+    expect(getChatMessageSeenBy(chatMessage(5, alice), readTimestamps)).toStrictEqual([
+      'identity_B',
+      'identity_L',
+    ]);
+  });
+});
+
+describe('Test countUnreadChatMessages', () => {
+  test('Only messages of others after the last read one are unread.', () => {
+    const messages = [chatMessage(10, alice), chatMessage(20, local), chatMessage(30, alice)];
+    expect(countUnreadChatMessages(messages, 10, 'identity_L')).toBe(1);
+    expect(countUnreadChatMessages(messages, 0, 'identity_L')).toBe(2);
+  });
+});
+
+describe('Test read receipts of sent messages', () => {
+  test('The sent message is seen once the receiver read up to it.', async () => {
+    const sender = new Room();
+    const receiver = new Room();
+    receiver.localParticipant.identity = 'identity_R';
+    // The stream header is stamped before the message goes out, receivers only know that timestamp
+    const info = { id: 'msg_1', timestamp: Date.now() - 50 } as Awaited<
+      ReturnType<LocalParticipant['sendText']>
+    >;
+    vi.spyOn(sender.localParticipant, 'sendText').mockResolvedValue(info);
+    vi.spyOn(sender.localParticipant, 'publishData').mockResolvedValue();
+    const publishReceipt = vi.spyOn(receiver.localParticipant, 'publishData').mockResolvedValue();
+
+    const sent = await setupChat(sender).send('hi');
+    const senderReadState = setupChatReadState(sender);
+    const readTimestamps = firstValueFrom(senderReadState.readTimestampsObservable.pipe(skip(1)));
+
+    await setupChatReadState(receiver, { sendReceipts: true }).markAsRead(info.timestamp);
+    const [payload] = publishReceipt.mock.calls[0];
+    sender.emit(
+      RoomEvent.DataReceived,
+      payload,
+      receiver.localParticipant,
+      undefined,
+      DataTopic.CHAT_READ_RECEIPTS,
+    );
+
+    expect(getChatMessageSeenBy(sent, await readTimestamps)).toStrictEqual(['identity_R']);
+  });
+
+  test('Receipts for private messages only go to the given participants.', async () => {
+    const room = new Room();
+    const publishReceipt = vi.spyOn(room.localParticipant, 'publishData').mockResolvedValue();
+
+    await setupChatReadState(room, { sendReceipts: true }).markAsRead(10, ['identity_A']);
+    expect(publishReceipt.mock.calls[0][1]).toMatchObject({
+      destinationIdentities: ['identity_A'],
+    });
+  });
+});
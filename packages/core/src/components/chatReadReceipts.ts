@@ -0,0 +1,146 @@
+import type { Room } from 'livekit-client';
+import { RoomEvent } from 'livekit-client';
+import { BehaviorSubject, Subject, filter, map, scan, takeUntil } from 'rxjs';
+import type { ReceivedChatMessage } from '../messages/types';
+import { DataTopic, sendMessage, setupDataMessageHandler } from '../observables/dataChannel';
+import { log } from '../logger';
+
+/** @beta */
+export interface ChatReadStateOptions {
+  /** The data topic read receipts are exchanged on. Defaults to `DataTopic.CHAT_READ_RECEIPTS`. */
+  topic?: string;
+  /**
+   * Lets the other participants know up to which message the local participant has read.
+   * @defaultValue false
+   */
+  sendReceipts?: boolean;
+}
+
+/**
+ * The timestamp of the latest message each participant has read, by identity.
+ * @beta
+ */
+export type ChatReadTimestamps = Map<string, number>;
+
+type ReadReceipt = { lastReadTimestamp: number };
+
+type ChatReadSubjects = {
+  localReadSubject: BehaviorSubject<number>;
+  remoteReadSubject: BehaviorSubject<ChatReadTimestamps>;
+};
+
+const readSubjectMap: WeakMap<Room, Map<string, ChatReadSubjects>> = new WeakMap();
+
+function decodeReadReceipt(payload: Uint8Array): ReadReceipt | undefined {
+  try {
+    const receipt = JSON.parse(new TextDecoder().decode(payload));
+    return typeof receipt?.lastReadTimestamp === 'number' ? receipt : undefined;
+  } catch (e) {
+    log.warn('could not decode read receipt', e);
+    return undefined;
+  }
+}
+
+/**
+ * Returns the identities of the participants that have read the message, apart from its sender.
+ * @beta
+ */
+export function getChatMessageSeenBy(
+  message: Pick<ReceivedChatMessage, 'timestamp' | 'from'>,
+  readTimestamps: ChatReadTimestamps,
+): string[] {
+  return [...readTimestamps]
+    .filter(
+      ([identity, timestamp]) =>
+        identity !== message.from?.identity && timestamp >= message.timestamp,
+    )
+    .map(([identity]) => identity);
+}
+
+/**
+ * Returns the number of messages of other participants that were sent after the given timestamp.
+ * @beta
+ */
+export function countUnreadChatMessages(
+  messages: ReceivedChatMessage[],
+  lastReadTimestamp: number,
+  localIdentity: string,
+): number {
+  return messages.filter(
+    (msg) => msg.timestamp > lastReadTimestamp && msg.from?.identity !== localIdentity,
+  ).length;
+}
+
+/**
+ * Tracks up to which message the local participant and, through read receipts, the remote
+ * participants have read the chat. The state is kept per room, so it survives the chat being
+ * unmounted, and is reset once the room disconnects.
+ * @beta
+ */
+export function setupChatReadState(room: Room, options: ChatReadStateOptions = {}) {
+  const topic = options.topic ?? DataTopic.CHAT_READ_RECEIPTS;
+
+  const topicMap = readSubjectMap.get(room) ?? new Map<string, ChatReadSubjects>();
+  let subjects = topicMap.get(topic);
+  if (!subjects) {
+    const created = {
+      localReadSubject: new BehaviorSubject(0),
+      remoteReadSubject: new BehaviorSubject<ChatReadTimestamps>(new Map()),
+    };
+    subjects = created;
+    const onDestroyObservable = new Subject<void>();
+    const { messageObservable } = setupDataMessageHandler(room, topic);
+    messageObservable
+      .pipe(
+        map((msg) => {
+          const receipt = decodeReadReceipt(msg.payload);
+          return receipt && msg.from
+            ? { identity: msg.from.identity, timestamp: receipt.lastReadTimestamp }
+            : undefined;
+        }),
+        filter((receipt) => !!receipt),
+        scan((readTimestamps, { identity, timestamp }) => {
+          if ((readTimestamps.get(identity) ?? 0) >= timestamp) {
+            return readTimestamps;
+          }
+          return new Map(readTimestamps).set(identity, timestamp);
+        }, created.remoteReadSubject.value),
+        takeUntil(onDestroyObservable),
+      )
+      .subscribe((readTimestamps) => created.remoteReadSubject.next(readTimestamps));
+
+    room.once(RoomEvent.Disconnected, () => {
+      onDestroyObservable.next();
+      onDestroyObservable.complete();
+      readSubjectMap.delete(room);
+    });
+    topicMap.set(topic, created);
+    readSubjectMap.set(room, topicMap);
+  }
+  const { localReadSubject, remoteReadSubject } = subjects;
+
+  /**
+   * Marks all messages up to the timestamp as read. The receipt goes to the whole room, unless
+   * destinations are given, e.g. the participants of a private conversation.
+   */
+  const markAsRead = async (timestamp: number, destinationIdentities?: string[]) => {
+    if (timestamp <= localReadSubject.value) {
+      return;
+    }
+    localReadSubject.next(timestamp);
+    if (options.sendReceipts) {
+      const receipt: ReadReceipt = { lastReadTimestamp: timestamp };
+      await sendMessage(room.localParticipant, new TextEncoder().encode(JSON.stringify(receipt)), {
+        reliable: true,
+        topic,
+        destinationIdentities,
+      });
+    }
+  };
+
+  return {
+    lastReadTimestampObservable: localReadSubject.asObservable(),
+    readTimestampsObservable: remoteReadSubject.asObservable(),
+    markAsRead,
+  };
+}
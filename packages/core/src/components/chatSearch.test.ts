@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import { Participant } from 'livekit-client';
+import type { ReceivedChatMessage } from '../messages/types';
+import { filterChatMessages, findChatSearchMatches, isChatSearchActive } from './chatSearch';
+
+const alice = new Participant('sid_A', 'alice', 'Alice Smith');
+const bob = new Participant('sid_B', 'bob');
+
+function chatMessage(id: string, message: string, from: Participant): ReceivedChatMessage {
+  return { id, timestamp: Number(id) * 1000, message, type: 'chatMessage', from };
+}
+
+const messages = [
+  chatMessage('1', 'Hello everyone', alice),
+  chatMessage('2', 'hello Alice', bob),
+  chatMessage('3', 'The agenda is shared', alice),
+];
+
+describe('Test filterChatMessages', () => {
+  test('Text is matched ignoring case.', () => {
+    expect(filterChatMessages(messages, { text: 'HELLO' }).map((msg) => msg.id)).toStrictEqual([
+      '1',
+      '2',
+    ]);
+  });
+
+  test('Senders are matched by identity or part of their name.', () => {
+    expect(filterChatMessages(messages, { from: 'smith' }).map((msg) => msg.id)).toStrictEqual([
+      '1',
+      '3',
+    ]);
+    expect(filterChatMessages(messages, { from: 'bob' }).map((msg) => msg.id)).toStrictEqual(['2']);
+  });
+
+  test('Criteria are combined, date ranges are inclusive.', () => {
+    const query = { text: 'e', from: 'alice', after: 2000, before: 3000 };
+    expect(filterChatMessages(messages, query).map((msg) => msg.id)).toStrictEqual(['3']);
+  });
+
+  test('An empty query matches all messages.', () => {
+    expect(isChatSearchActive({ text: '  ' })).toBe(false);
+    expect(filterChatMessages(messages, {})).toBe(messages);
+  });
+});
+
+describe('Test findChatSearchMatches', () => {
+  test('All occurrences are found.', () => {
+    expect(findChatSearchMatches('Na na NA', 'na')).toStrictEqual([
+      { start: 0, end: 2 },
+      { start: 3, end: 5 },
+      { start: 6, end: 8 },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import type { ReceivedChatMessage } from '../messages/types';
+
+/**
+ * Criteria chat messages are searched by. Unset criteria match every message.
+ * @beta
+ */
+export interface ChatSearchQuery {
+  /** Text the message has to contain, ignoring case. */
+  text?: string;
+  /** Identity or part of the name of the sender, ignoring case. */
+  from?: string;
+  /** Earliest timestamp of matching messages, inclusive. */
+  after?: number;
+  /** Latest timestamp of matching messages, inclusive. */
+  before?: number;
+}
+
+/**
+ * A match of the search text within a message, as start and end index.
+ * @beta
+ */
+export type ChatSearchMatch = { start: number; end: number };
+
+/**
+ * Whether any criteria of the query are set.
+ * @beta
+ */
+export function isChatSearchActive(query: ChatSearchQuery): boolean {
+  return (
+    !!query.text?.trim() ||
+    !!query.from?.trim() ||
+    query.after !== undefined ||
+    query.before !== undefined
+  );
+}
+
+/**
+ * Returns where the search text occurs within the text, ignoring case.
+ * @beta
+ */
+export function findChatSearchMatches(text: string, searchText: string): ChatSearchMatch[] {
+  const needle = searchText.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+  const haystack = text.toLowerCase();
+  const matches: ChatSearchMatch[] = [];
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    matches.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return matches;
+}
+
+/**
+ * Whether the message matches all criteria of the query.
+ * @beta
+ */
+export function matchesChatSearch(
+  message: Pick<ReceivedChatMessage, 'message' | 'from' | 'timestamp'>,
+  query: ChatSearchQuery,
+): boolean {
+  const text = query.text?.trim();
+  if (text && findChatSearchMatches(message.message, text).length === 0) {
+    return false;
+  }
+  const from = query.from?.trim().toLowerCase();
+  if (
+    from &&
+    message.from?.identity.toLowerCase() !== from &&
+    !message.from?.name?.toLowerCase().includes(from)
+  ) {
+    return false;
+  }
+  if (query.after !== undefined && message.timestamp < query.after) {
+    return false;
+  }
+  return query.before === undefined || message.timestamp <= query.before;
+}
+
+/**
+ * Returns the messages that match all criteria of the query, in their original order.
+ * @beta
+ */
+export function filterChatMessages<
+  T extends Pick<ReceivedChatMessage, 'message' | 'from' | 'timestamp'>,
+>(messages: T[], query: ChatSearchQuery): T[] {
+  return isChatSearchActive(query)
+    ? messages.filter((msg) => matchesChatSearch(msg, query))
+    : messages;
+}
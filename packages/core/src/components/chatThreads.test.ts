@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'vitest';
+import type { ReceivedChatMessage } from '../messages/types';
+import { ChatMessageAttributes } from './chat';
+import { getReplyToId, groupChatMessagesByThread } from './chatThreads';
+
+function chatMessage(id: string, replyTo?: string): ReceivedChatMessage {
+  return {
+    id,
+    timestamp: Number(id),
+    message: id,
+    type: 'chatMessage',
+    attributes: replyTo ? { [ChatMessageAttributes.ReplyTo]: replyTo } : undefined,
+  };
+}
+
+describe('Test groupChatMessagesByThread', () => {
+  test('Messages without replies are threads of their own.', () => {
+    const threads = groupChatMessagesByThread([chatMessage('1'), chatMessage('2')]);
+    expect(threads.map(({ root, replies }) => [root.id, replies.length])).toStrictEqual([
+      ['1', 0],
+      ['2', 0],
+    ]);
+  });
+
+  test('Replies and replies to replies belong to the thread they started in.', () => {
+    const threads = groupChatMessagesByThread([
+      chatMessage('1'),
+      chatMessage('2'),
+      chatMessage('3', '1'),
+      chatMessage('4', '3'),
+    ]);
+    expect(threads).toHaveLength(2);
+    expect(threads[0].replies.map((msg) => msg.id)).toStrictEqual(['3', '4']);
+  });
+
+  test('Replies to unknown messages start a thread.', () => {
+    const threads = groupChatMessagesByThread([chatMessage('2', '1')]);
+    expect(threads[0].root.id).toBe('2');
+  });
+});
+
+describe('Test getReplyToId', () => {
+  test('Only replies have the id of the original message.', () => {
+    expect(getReplyToId(chatMessage('2', '1'))).toBe('1');
+    expect(getReplyToId(chatMessage('1'))).toBeUndefined();
+  });
+});
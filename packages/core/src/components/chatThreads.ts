@@ -0,0 +1,42 @@
+import type { ReceivedChatMessage } from '../messages/types';
+import { ChatMessageAttributes } from './chat';
+
+/**
+ * A message together with all replies to it and to its replies, in the order they were sent.
+ * @beta
+ */
+export interface ChatThread {
+  root: ReceivedChatMessage;
+  replies: ReceivedChatMessage[];
+}
+
+/**
+ * Returns the id of the message the message replies to.
+ * @beta
+ */
+export function getReplyToId(message: Pick<ReceivedChatMessage, 'attributes'>) {
+  return message.attributes?.[ChatMessageAttributes.ReplyTo] || undefined;
+}
+
+/**
+ * Groups the messages into threads. Replies to replies belong to the thread of the message that
+ * started it, replies whose original message is unknown start a thread of their own.
+ * @beta
+ */
+export function groupChatMessagesByThread(messages: ReceivedChatMessage[]): ChatThread[] {
+  const threads: ChatThread[] = [];
+  const threadsById = new Map<string, ChatThread>();
+  for (const message of messages) {
+    const replyToId = getReplyToId(message);
+    const thread = replyToId ? threadsById.get(replyToId) : undefined;
+    if (thread) {
+      thread.replies.push(message);
+      threadsById.set(message.id, thread);
+    } else {
+      const newThread = { root: message, replies: [] };
+      threads.push(newThread);
+      threadsById.set(message.id, newThread);
+    }
+  }
+  return threads;
+}
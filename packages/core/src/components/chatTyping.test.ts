@@ -0,0 +1,32 @@
+import { describe, test, expect } from 'vitest';
+import { Participant } from 'livekit-client';
+import type { TypingState } from './chatTyping';
+import { updateTypingState } from './chatTyping';
+
+const alice = new Participant('sid_A', 'identity_A');
+const bob = new Participant('sid_B', 'identity_B');
+
+describe('Test updateTypingState', () => {
+  test('Typing notifications add participants until they expire.', () => {
+    const state = updateTypingState(new Map(), { participant: alice, typing: true }, 1000, 5000);
+    expect([...updateTypingState(state, undefined, 5999, 5000).keys()]).toStrictEqual([
+      'identity_A',
+    ]);
+    expect(updateTypingState(state, undefined, 6000, 5000).size).toBe(0);
+  });
+
+  test('A new notification renews the expiry.', () => {
+    let state: TypingState = new Map();
+    state = updateTypingState(state, { participant: alice, typing: true }, 1000, 5000);
+    state = updateTypingState(state, { participant: alice, typing: true }, 4000, 5000);
+    expect(state.get('identity_A')?.expiresAt).toBe(9000);
+  });
+
+  test('Participants that stopped typing are removed right away.', () => {
+    let state: TypingState = new Map();
+    state = updateTypingState(state, { participant: alice, typing: true }, 1000, 5000);
+    state = updateTypingState(state, { participant: bob, typing: true }, 1000, 5000);
+    state = updateTypingState(state, { participant: alice, typing: false }, 2000, 5000);
+    expect([...state.keys()]).toStrictEqual(['identity_B']);
+  });
+});
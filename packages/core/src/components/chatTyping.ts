@@ -0,0 +1,144 @@
+import type { Participant, Room } from 'livekit-client';
+import { RoomEvent } from 'livekit-client';
+import type { Observable } from 'rxjs';
+import { distinctUntilChanged, filter, interval, map, merge, scan, startWith } from 'rxjs';
+import { DataTopic, sendMessage, setupDataMessageHandler } from '../observables/dataChannel';
+import { roomEventSelector } from '../observables/room';
+import { log } from '../logger';
+
+/** @beta */
+export interface TypingIndicatorOptions {
+  /** The data topic typing notifications are exchanged on. Defaults to `DataTopic.CHAT_TYPING`. */
+  topic?: string;
+  /**
+   * Milliseconds after which a participant is no longer considered typing without a new
+   * notification.
+   * @defaultValue 5000
+   */
+  timeout?: number;
+  /**
+   * Minimum milliseconds between two notifications of the local participant.
+   * @defaultValue 2000
+   */
+  throttle?: number;
+}
+
+type TypingMessage = { typing: boolean };
+
+/** @internal */
+export type TypingEvent = { participant: Participant; typing: boolean };
+
+/** @internal */
+export type TypingState = Map<string, { participant: Participant; expiresAt: number }>;
+
+/**
+ * Drops expired entries and applies the event, if any.
+ * @internal
+ */
+export function updateTypingState(
+  state: TypingState,
+  event: TypingEvent | undefined,
+  now: number,
+  timeout: number,
+): TypingState {
+  const next: TypingState = new Map([...state].filter(([, entry]) => entry.expiresAt > now));
+  if (event?.typing) {
+    next.set(event.participant.identity, {
+      participant: event.participant,
+      expiresAt: now + timeout,
+    });
+  } else if (event) {
+    next.delete(event.participant.identity);
+  }
+  return next;
+}
+
+function decodeTypingMessage(payload: Uint8Array): TypingMessage | undefined {
+  try {
+    const message = JSON.parse(new TextDecoder().decode(payload));
+    return typeof message?.typing === 'boolean' ? message : undefined;
+  } catch (e) {
+    log.warn('could not decode typing message', e);
+    return undefined;
+  }
+}
+
+/**
+ * Sets up typing indicators for the chat. Notifications are sent as throttled, unreliable data
+ * messages and expire on the receiving side if they are not renewed.
+ * @beta
+ */
+export function setupTypingIndicator(room: Room, options: TypingIndicatorOptions = {}) {
+  const topic = options.topic ?? DataTopic.CHAT_TYPING;
+  const timeout = options.timeout ?? 5000;
+  const throttle = options.throttle ?? 2000;
+  const { messageObservable } = setupDataMessageHandler(room, topic);
+
+  const typingEventObservable: Observable<TypingEvent> = messageObservable.pipe(
+    map((msg) => {
+      const message = decodeTypingMessage(msg.payload);
+      return message && msg.from ? { participant: msg.from, typing: message.typing } : undefined;
+    }),
+    filter((event) => !!event),
+  );
+
+  /** The remote participants that are currently typing, in the order they started. */
+  const typingParticipantsObservable: Observable<Participant[]> = merge(
+    typingEventObservable,
+    roomEventSelector(room, RoomEvent.ParticipantDisconnected).pipe(
+      map(([participant]): TypingEvent => ({ participant, typing: false })),
+    ),
+    // Regularly drop participants whose notifications expired
+    interval(1000).pipe(map(() => undefined)),
+  ).pipe(
+    scan<TypingEvent | undefined, TypingState>(
+      (state, event) => updateTypingState(state, event, Date.now(), timeout),
+      new Map(),
+    ),
+    map((state) => [...state.values()].map(({ participant }) => participant)),
+    startWith([]),
+    distinctUntilChanged(
+      (previous, current) =>
+        previous.length === current.length && previous.every((p, i) => p === current[i]),
+    ),
+  );
+
+  let lastSentAt = 0;
+  let lastDestination: string | undefined;
+
+  // Typing notifications are best effort, failures are not worth surfacing
+  const publish = async (message: TypingMessage, destinationIdentities?: string[]) => {
+    try {
+      await sendMessage(room.localParticipant, new TextEncoder().encode(JSON.stringify(message)), {
+        reliable: false,
+        topic,
+        destinationIdentities,
+      });
+    } catch (e) {
+      log.debug('could not send typing notification', e);
+    }
+  };
+
+  /** Lets others know the local participant is typing, at most once per throttle interval. */
+  const sendTyping = async (destinationIdentities?: string[]) => {
+    const now = Date.now();
+    const destination = destinationIdentities?.join();
+    if (now - lastSentAt < throttle && destination === lastDestination) {
+      return;
+    }
+    lastSentAt = now;
+    lastDestination = destination;
+    await publish({ typing: true }, destinationIdentities);
+  };
+
+  /** Lets others know the local participant stopped typing, e.g. after sending the message. */
+  const sendStopTyping = async (destinationIdentities?: string[]) => {
+    if (lastSentAt === 0) {
+      return;
+    }
+    lastSentAt = 0;
+    await publish({ typing: false }, destinationIdentities);
+  };
+
+  return { typingParticipantsObservable, sendTyping, sendStopTyping };
+}
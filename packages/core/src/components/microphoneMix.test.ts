@@ -0,0 +1,26 @@
+import { describe, test, expect } from 'vitest';
+import { getDuckingState } from './microphoneMix';
+
+describe('Test getDuckingState', () => {
+  const options = { threshold: 0.1, hold: 500, duckingGain: 0.2 };
+
+  test('The file stays at full level while the microphone is quiet.', () => {
+    expect(getDuckingState({ gain: 1 }, 0.05, 1000, options)).toStrictEqual({
+      gain: 1,
+      lastActiveAt: undefined,
+    });
+  });
+
+  test('The file is ducked as soon as the microphone is active.', () => {
+    expect(getDuckingState({ gain: 1 }, 0.3, 1000, options)).toStrictEqual({
+      gain: 0.2,
+      lastActiveAt: 1000,
+    });
+  });
+
+  test('The file stays ducked for the hold time after the microphone went quiet.', () => {
+    const ducked = { gain: 0.2, lastActiveAt: 1000 };
+    expect(getDuckingState(ducked, 0, 1400, options).gain).toBe(0.2);
+    expect(getDuckingState(ducked, 0, 1500, options).gain).toBe(1);
+  });
+});
@@ -0,0 +1,141 @@
+import type { AudioProcessorOptions, Track, TrackProcessor } from 'livekit-client';
+
+/** @beta */
+export interface MicrophoneMixOptions {
+  /**
+   * Lower the level of the file audio while the microphone is active.
+   * @defaultValue true
+   */
+  ducking?: boolean;
+  /**
+   * Gain applied to the file audio while it is ducked.
+   * @defaultValue 0.25
+   */
+  duckingGain?: number;
+  /**
+   * Microphone volume between `0` and `1` above which the file audio is ducked. The volume is
+   * calculated the same way as by `createAudioAnalyser` of `livekit-client`.
+   * @defaultValue 0.1
+   */
+  threshold?: number;
+  /**
+   * Time in ms the file audio stays ducked after the microphone went quiet.
+   * @defaultValue 500
+   */
+  hold?: number;
+  /**
+   * Time constant in seconds of the transitions between the ducked and the regular level.
+   * @defaultValue 0.1
+   */
+  rampTime?: number;
+}
+
+/** @internal */
+export interface DuckingState {
+  gain: number;
+  /** Timestamp (ms) of the last moment the microphone was above the threshold. */
+  lastActiveAt?: number;
+}
+
+/**
+ * Returns the gain of the file audio for the given microphone volume.
+ * @internal
+ */
+export function getDuckingState(
+  state: DuckingState,
+  volume: number,
+  now: number,
+  options: MicrophoneMixOptions = {},
+): DuckingState {
+  const threshold = options.threshold ?? 0.1;
+  const hold = options.hold ?? 500;
+  const duckingGain = options.duckingGain ?? 0.25;
+
+  const lastActiveAt = volume > threshold ? now : state.lastActiveAt;
+  const isDucked = lastActiveAt !== undefined && now - lastActiveAt < hold;
+  return { gain: isDucked ? duckingGain : 1, lastActiveAt };
+}
+
+/** Interval in ms in which the microphone volume is checked for ducking. */
+const DUCKING_INTERVAL = 1000 / 30;
+
+/**
+ * Creates a processor for the local microphone track that mixes the given file audio into the
+ * published microphone track, and ducks the file audio while the local participant speaks.
+ * @remarks
+ * Muting the microphone publication also mutes the mixed file audio for remote participants.
+ * @example
+ * ```ts
+ * await microphoneTrack.setProcessor(createMicrophoneMixProcessor(fileAudioTrack));
+ * ```
+ * @beta
+ */
+export function createMicrophoneMixProcessor(
+  fileAudioTrack: MediaStreamTrack,
+  options: MicrophoneMixOptions = {},
+): TrackProcessor<Track.Kind.Audio, AudioProcessorOptions> {
+  let cleanup: (() => void) | undefined;
+
+  const processor: TrackProcessor<Track.Kind.Audio, AudioProcessorOptions> = {
+    name: 'lk.microphone-mix',
+    init: async ({ track, audioContext }) => {
+      const microphoneSource = audioContext.createMediaStreamSource(new MediaStream([track]));
+      const fileSource = audioContext.createMediaStreamSource(new MediaStream([fileAudioTrack]));
+      const fileGain = audioContext.createGain();
+      const destination = audioContext.createMediaStreamDestination();
+      microphoneSource.connect(destination);
+      fileSource.connect(fileGain).connect(destination);
+
+      let interval: ReturnType<typeof setInterval> | undefined;
+      if (options.ducking ?? true) {
+        // Same analysis as `createAudioAnalyser`, but on the context of the processor.
+        const analyser = audioContext.createAnalyser();
+        analyser.minDecibels = -100;
+        analyser.maxDecibels = -80;
+        analyser.fftSize = 32;
+        analyser.smoothingTimeConstant = 0;
+        microphoneSource.connect(analyser);
+        const dataArray = new Uint8Array(analyser.frequencyBinCount);
+        const calculateVolume = () => {
+          analyser.getByteFrequencyData(dataArray);
+          let sum = 0;
+          for (const amplitude of dataArray) {
+            sum += Math.pow(amplitude / 255, 2);
+          }
+          return Math.sqrt(sum / dataArray.length);
+        };
+
+        let state: DuckingState = { gain: 1 };
+        interval = setInterval(() => {
+          const next = getDuckingState(state, calculateVolume(), Date.now(), options);
+          if (next.gain !== state.gain) {
+            fileGain.gain.setTargetAtTime(
+              next.gain,
+              audioContext.currentTime,
+              options.rampTime ?? 0.1,
+            );
+          }
+          state = next;
+        }, DUCKING_INTERVAL);
+      }
+
+      processor.processedTrack = destination.stream.getAudioTracks()[0];
+      cleanup = () => {
+        clearInterval(interval);
+        microphoneSource.disconnect();
+        fileSource.disconnect();
+        fileGain.disconnect();
+        processor.processedTrack?.stop();
+      };
+    },
+    restart: async (opts) => {
+      cleanup?.();
+      await processor.init(opts);
+    },
+    destroy: async () => {
+      cleanup?.();
+      cleanup = undefined;
+    },
+  };
+  return processor;
+}
@@ -0,0 +1,64 @@
+import { Participant } from 'livekit-client';
+import { describe, test, expect } from 'vitest';
+import type { ReceivedPlaybackState } from './playbackSync';
+import {
+  decodePlaybackSyncMessage,
+  encodePlaybackSyncMessage,
+  getPlaybackPosition,
+} from './playbackSync';
+
+describe('Test playback sync message encoding', () => {
+  test('Messages survive an encode/decode round trip.', () => {
+    const message = {
+      type: 'state',
+      state: { position: 12.5, duration: 60, paused: false, rate: 1.5, coHostIdentity: 'B' },
+    } as const;
+    expect(decodePlaybackSyncMessage(encodePlaybackSyncMessage(message))).toStrictEqual(message);
+  });
+
+  test.each([
+    { action: 'play' },
+    { action: 'seek', position: 30 },
+    { action: 'rate', rate: 2 },
+  ] as const)('Command %o survives an encode/decode round trip.', (command) => {
+    const message = { type: 'command', command } as const;
+    expect(decodePlaybackSyncMessage(encodePlaybackSyncMessage(message))).toStrictEqual(message);
+  });
+
+  test.each([
+    'not json',
+    JSON.stringify({ type: 'unknown' }),
+    JSON.stringify({ type: 'state', state: { position: '1' } }),
+    JSON.stringify({ type: 'command', command: {} }),
+    JSON.stringify({ type: 'command', command: { action: 'seek' } }),
+    JSON.stringify({ type: 'command', command: { action: 'seek', position: '10' } }),
+    JSON.stringify({ type: 'command', command: { action: 'rate', rate: 0 } }),
+    JSON.stringify({ type: 'command', command: { action: 'rate', rate: null } }),
+    JSON.stringify({ type: 'command', command: { action: 'skip' } }),
+  ])('Invalid payload %s is ignored.', (payload) => {
+    expect(decodePlaybackSyncMessage(new TextEncoder().encode(payload))).toBeUndefined();
+  });
+});
+
+describe('Test getPlaybackPosition', () => {
+  const state: ReceivedPlaybackState = {
+    position: 10,
+    duration: 20,
+    paused: false,
+    rate: 2,
+    from: new Participant('sid_A', 'identity_A'),
+    receivedAt: 1_000,
+  };
+
+  test('A paused state keeps its position.', () => {
+    expect(getPlaybackPosition({ ...state, paused: true }, 5_000)).toBe(10);
+  });
+
+  test('A playing state is extrapolated with its playback rate.', () => {
+    expect(getPlaybackPosition(state, 3_000)).toBe(14);
+  });
+
+  test('The extrapolated position never exceeds the duration.', () => {
+    expect(getPlaybackPosition(state, 60_000)).toBe(20);
+  });
+});
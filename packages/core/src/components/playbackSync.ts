@@ -0,0 +1,191 @@
+import type { Participant, Room } from 'livekit-client';
+import { RoomEvent } from 'livekit-client';
+import type { Observable } from 'rxjs';
+import { filter, map, merge, scan, share } from 'rxjs';
+import { DataTopic, sendMessage, setupDataMessageHandler } from '../observables/dataChannel';
+import { roomEventSelector } from '../observables/room';
+import { log } from '../logger';
+
+/**
+ * Snapshot of the sharer's player, broadcast to all participants of the room.
+ * @beta
+ */
+export interface PlaybackState {
+  /** Playback position in seconds at the moment the state was captured. */
+  position: number;
+  /** Duration of the shared file in seconds. */
+  duration: number;
+  paused: boolean;
+  rate: number;
+  /** Identity of the participant that is allowed to drive the sharer's player. */
+  coHostIdentity?: string;
+}
+
+/**
+ * A playback state as seen by a remote participant.
+ * @beta
+ */
+export interface ReceivedPlaybackState extends PlaybackState {
+  from: Participant;
+  /** Local timestamp (ms) of when the state was received, used to extrapolate the position. */
+  receivedAt: number;
+}
+
+/** @beta */
+export type PlaybackCommand =
+  | { action: 'play' }
+  | { action: 'pause' }
+  | { action: 'seek'; position: number }
+  | { action: 'rate'; rate: number };
+
+/** @beta */
+export interface ReceivedPlaybackCommand {
+  command: PlaybackCommand;
+  from: Participant;
+}
+
+export type PlaybackSyncMessage =
+  | { type: 'state'; state: PlaybackState }
+  | { type: 'stop' }
+  | { type: 'command'; command: PlaybackCommand };
+
+type PlaybackSyncEvent = { message: PlaybackSyncMessage; from: Participant };
+
+/** @beta */
+export interface PlaybackSyncOptions {
+  /** The data topic playback messages are exchanged on. Defaults to `DataTopic.PLAYBACK_SYNC`. */
+  topic?: string;
+}
+
+/**
+ * Range of playback rates the sharer's player accepts from a co-host.
+ * @beta
+ */
+export const PLAYBACK_RATE_RANGE = { min: 0.25, max: 4 } as const;
+
+function isValidPlaybackCommand(command: unknown): command is PlaybackCommand {
+  const { action, position, rate } = (command ?? {}) as Record<string, unknown>;
+  switch (action) {
+    case 'play':
+    case 'pause':
+      return true;
+    case 'seek':
+      return typeof position === 'number' && Number.isFinite(position);
+    case 'rate':
+      return typeof rate === 'number' && Number.isFinite(rate) && rate > 0;
+    default:
+      return false;
+  }
+}
+
+export function encodePlaybackSyncMessage(message: PlaybackSyncMessage): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(message));
+}
+
+/**
+ * Decodes a playback sync payload. Returns `undefined` for payloads that are not
+ * valid playback sync messages instead of throwing.
+ */
+export function decodePlaybackSyncMessage(payload: Uint8Array): PlaybackSyncMessage | undefined {
+  try {
+    const message = JSON.parse(new TextDecoder().decode(payload));
+    switch (message?.type) {
+      case 'state':
+        return Number.isFinite(message.state?.position) &&
+          typeof message.state?.paused === 'boolean' &&
+          Number.isFinite(message.state?.rate)
+          ? message
+          : undefined;
+      case 'stop':
+        return message;
+      case 'command':
+        return isValidPlaybackCommand(message.command) ? message : undefined;
+      default:
+        return undefined;
+    }
+  } catch (e) {
+    log.warn('could not decode playback sync message', e);
+    return undefined;
+  }
+}
+
+/**
+ * Returns the estimated current playback position (in seconds) of a received playback state.
+ * While playing, the position is extrapolated from the time the state was received.
+ * @beta
+ */
+export function getPlaybackPosition(state: ReceivedPlaybackState, now: number = Date.now()) {
+  if (state.paused) {
+    return state.position;
+  }
+  const position = state.position + ((now - state.receivedAt) / 1000) * state.rate;
+  return state.duration > 0 ? Math.min(position, state.duration) : position;
+}
+
+/**
+ * Sets up playback synchronization for a shared media file.
+ * The sharer broadcasts its player state with `sendState`, remote participants
+ * follow it through `playbackStateObservable` and a delegated co-host can drive
+ * the sharer's player with `sendCommand`.
+ * @beta
+ */
+export function setupPlaybackSync(room: Room, options: PlaybackSyncOptions = {}) {
+  const topic = options.topic ?? DataTopic.PLAYBACK_SYNC;
+  const { messageObservable } = setupDataMessageHandler(room, topic);
+
+  const syncMessageObservable: Observable<PlaybackSyncEvent> = messageObservable.pipe(
+    map(
+      (msg): Partial<PlaybackSyncEvent> => ({
+        message: decodePlaybackSyncMessage(msg.payload),
+        from: msg.from,
+      }),
+    ),
+    filter((msg): msg is PlaybackSyncEvent => !!msg.message && !!msg.from),
+    share(),
+  );
+
+  /** The latest playback state of the remote sharer, `undefined` if nobody is sharing. */
+  const playbackStateObservable: Observable<ReceivedPlaybackState | undefined> = merge(
+    syncMessageObservable,
+    roomEventSelector(room, RoomEvent.ParticipantDisconnected).pipe(
+      map(([participant]): PlaybackSyncEvent => ({ message: { type: 'stop' }, from: participant })),
+    ),
+  ).pipe(
+    scan<PlaybackSyncEvent, ReceivedPlaybackState | undefined>((current, { message, from }) => {
+      if (message.type === 'state') {
+        return { ...message.state, from, receivedAt: Date.now() };
+      } else if (message.type === 'stop' && current?.from.identity === from.identity) {
+        return undefined;
+      }
+      return current;
+    }, undefined),
+  );
+
+  const commandObservable: Observable<ReceivedPlaybackCommand> = syncMessageObservable.pipe(
+    filter(({ message }) => message.type === 'command'),
+    map(({ message, from }) => ({
+      command: (message as Extract<PlaybackSyncMessage, { type: 'command' }>).command,
+      from,
+    })),
+  );
+
+  const publish = (message: PlaybackSyncMessage, destinationIdentities?: string[]) =>
+    sendMessage(room.localParticipant, encodePlaybackSyncMessage(message), {
+      reliable: true,
+      topic,
+      destinationIdentities,
+    });
+
+  /** Broadcast the local player state. Pass `destinationIdentities` to only update late joiners. */
+  const sendState = (state: PlaybackState, destinationIdentities?: string[]) =>
+    publish({ type: 'state', state }, destinationIdentities);
+
+  /** Let remote participants know that the local participant stopped sharing. */
+  const sendStop = () => publish({ type: 'stop' });
+
+  /** Ask the sharer to update its player. Only honored if the local participant is the co-host. */
+  const sendCommand = (command: PlaybackCommand, sharerIdentity: string) =>
+    publish({ type: 'command', command }, [sharerIdentity]);
+
+  return { playbackStateObservable, commandObservable, sendState, sendStop, sendCommand };
+}
@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { estimateBpm } from './bpm';
+
+const SAMPLE_RATE = 22_050;
+
+/** Renders short noise bursts at the given tempo. */
+function clickTrack(bpm: number, seconds: number): Float32Array {
+  const samples = new Float32Array(SAMPLE_RATE * seconds);
+  const beatLength = (60 / bpm) * SAMPLE_RATE;
+  for (let beat = 0; beat * beatLength < samples.length; beat++) {
+    const start = Math.round(beat * beatLength);
+    for (let i = start; i < Math.min(start + 400, samples.length); i++) {
+      samples[i] = Math.sin(i) * (1 - (i - start) / 400);
+    }
+  }
+  return samples;
+}
+
+describe('Test estimateBpm', () => {
+  test.each([80, 100, 120, 128, 140, 174])(
+    'Estimates the tempo of a %i BPM click track.',
+    (bpm) => {
+      const estimate = estimateBpm(clickTrack(bpm, 12), SAMPLE_RATE);
+      expect(estimate).toBeDefined();
+      expect(Math.abs(estimate! - bpm)).toBeLessThanOrEqual(2);
+    },
+  );
+
+  test('Returns undefined for silence.', () => {
+    expect(estimateBpm(new Float32Array(SAMPLE_RATE * 12), SAMPLE_RATE)).toBeUndefined();
+  });
+
+  test('Returns undefined if the samples are too short.', () => {
+    expect(estimateBpm(clickTrack(120, 1), SAMPLE_RATE)).toBeUndefined();
+  });
+});
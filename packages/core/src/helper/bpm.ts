@@ -0,0 +1,84 @@
+/** @beta */
+export interface EstimateBpmOptions {
+  /** @defaultValue 60 */
+  minBpm?: number;
+  /** @defaultValue 180 */
+  maxBpm?: number;
+}
+
+/** Number of samples that are summed up into one point of the energy envelope. */
+const ENVELOPE_WINDOW = 512;
+
+/**
+ * Estimates the tempo of a piece of music in beats per minute.
+ * @remarks
+ * The estimation autocorrelates the onsets (rises in signal energy) of the given samples and picks
+ * the strongest periodicity between `minBpm` and `maxBpm`. Returns `undefined` if the samples are
+ * too short or have no discernible beat.
+ * @beta
+ */
+export function estimateBpm(
+  samples: Float32Array,
+  sampleRate: number,
+  options: EstimateBpmOptions = {},
+): number | undefined {
+  const minBpm = options.minBpm ?? 60;
+  const maxBpm = options.maxBpm ?? 180;
+
+  const envelopeLength = Math.floor(samples.length / ENVELOPE_WINDOW);
+  const envelopeRate = sampleRate / ENVELOPE_WINDOW;
+  const minLag = Math.max(2, Math.floor((60 / maxBpm) * envelopeRate));
+  const maxLag = Math.ceil((60 / minBpm) * envelopeRate);
+  if (envelopeLength < (maxLag + 1) * 2) {
+    return undefined;
+  }
+
+  // Rises in energy from one window to the next mark the onsets of notes and beats.
+  const onsets = new Float32Array(envelopeLength);
+  let previousEnergy = 0;
+  for (let i = 0; i < envelopeLength; i++) {
+    let energy = 0;
+    for (let j = i * ENVELOPE_WINDOW; j < (i + 1) * ENVELOPE_WINDOW; j++) {
+      energy += samples[j] * samples[j];
+    }
+    onsets[i] = Math.max(0, energy - previousEnergy);
+    previousEnergy = energy;
+  }
+
+  const correlations = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let correlation = 0;
+    for (let i = 0; i + lag < envelopeLength; i++) {
+      correlation += onsets[i] * onsets[i + lag];
+    }
+    // Normalize, so that shorter lags are not favored for having more terms.
+    correlations[lag] = correlation / (envelopeLength - lag);
+  }
+
+  // A beat period rarely is a whole number of windows, so its energy spreads over neighbouring lags.
+  const strength = (lag: number) =>
+    correlations[lag - 1] + correlations[lag] + correlations[lag + 1];
+  let maxStrength = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    maxStrength = Math.max(maxStrength, strength(lag));
+  }
+  if (maxStrength === 0) {
+    return undefined;
+  }
+
+  // Multiples of the beat period correlate just as well, so take the first strong peak.
+  let bestLag = minLag;
+  while (strength(bestLag) < maxStrength * 0.8) {
+    bestLag++;
+  }
+  while (bestLag < maxLag && strength(bestLag + 1) > strength(bestLag)) {
+    bestLag++;
+  }
+  const period =
+    ((bestLag - 1) * correlations[bestLag - 1] +
+      bestLag * correlations[bestLag] +
+      (bestLag + 1) * correlations[bestLag + 1]) /
+    strength(bestLag);
+
+  return Math.round((60 * envelopeRate) / period);
+}
@@ -1,3 +1,5 @@
+import { getMediaElementCaptureMethod } from './mediaElementCapture';
+
 /**
  * Returns `true` if the browser supports screen sharing.
  */
@@ -8,3 +10,11 @@ export function supportsScreenSharing(): boolean {
     !!navigator.mediaDevices.getDisplayMedia
   );
 }
+
+/**
+ * Returns `true` if the browser can capture the video and audio of a media element into a
+ * `MediaStream`, natively or through a canvas.
+ */
+export function supportsMediaElementCapture(): boolean {
+  return getMediaElementCaptureMethod() !== undefined;
+}
@@ -11,6 +11,11 @@ export {
   type GridLayoutInfo,
 } from './grid-layouts';
 export { setDifference } from './set-helper';
-export { supportsScreenSharing } from './featureDetection';
+export { supportsScreenSharing, supportsMediaElementCapture } from './featureDetection';
+export * from './mediaElementCapture';
+export { estimateBpm, type EstimateBpmOptions } from './bpm';
 export * from './transcriptions';
+export * from './subtitles';
+export * from './sharedMediaStatus';
+export { canShareMediaFile, type MediaFileSharePolicy } from './mediaFileSharePolicy';
 export * from './participant-attributes';
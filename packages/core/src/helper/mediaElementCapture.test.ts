@@ -0,0 +1,69 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  captureMediaElement,
+  getMediaElementCaptureMethod,
+  MediaElementCaptureError,
+} from './mediaElementCapture';
+
+const mockElement = (methods: Record<string, unknown>) => methods as unknown as HTMLVideoElement;
+
+describe('Test media element capture', () => {
+  test('The standard captureStream is preferred.', () => {
+    const element = mockElement({ captureStream: () => {}, mozCaptureStream: () => {} });
+    expect(getMediaElementCaptureMethod(element)).toBe('captureStream');
+  });
+
+  test('mozCaptureStream is used if captureStream is missing.', () => {
+    expect(getMediaElementCaptureMethod(mockElement({ mozCaptureStream: () => {} }))).toBe(
+      'mozCaptureStream',
+    );
+  });
+
+  test('No method is reported without canvas and Web Audio support.', () => {
+    expect(getMediaElementCaptureMethod(mockElement({}))).toBeUndefined();
+  });
+
+  test('A typed error is thrown if nothing works.', () => {
+    expect(() => captureMediaElement(mockElement({}))).toThrow(MediaElementCaptureError);
+  });
+
+  test('A failing capture is wrapped in a typed error that names the method.', () => {
+    const cause = new Error('not allowed');
+    const element = mockElement({
+      captureStream: () => {
+        throw cause;
+      },
+    });
+    try {
+      captureMediaElement(element);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(MediaElementCaptureError);
+      expect((e as MediaElementCaptureError).method).toBe('captureStream');
+      expect((e as MediaElementCaptureError).cause).toBe(cause);
+    }
+  });
+
+  test('The next method is tried if one fails for the element.', () => {
+    vi.stubGlobal(
+      'AudioContext',
+      class {
+        createMediaStreamSource() {
+          return { connect: () => {} };
+        }
+        close() {}
+      },
+    );
+    const stream = { getAudioTracks: () => [], getTracks: () => [], addEventListener: () => {} };
+    const element = mockElement({
+      captureStream: () => {
+        throw new Error('cross-origin');
+      },
+      mozCaptureStream: () => stream,
+    });
+    const capture = captureMediaElement(element);
+    expect(capture.method).toBe('mozCaptureStream');
+    expect(capture.stream).toBe(stream);
+    vi.unstubAllGlobals();
+  });
+});
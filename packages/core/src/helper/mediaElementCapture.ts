@@ -0,0 +1,238 @@
+import { log } from '../logger';
+
+/**
+ * How the content of a media element is turned into a `MediaStream`.
+ * - `captureStream`: the standard `HTMLMediaElement.captureStream()`.
+ * - `mozCaptureStream`: the prefixed variant of Firefox.
+ * - `canvas`: frames are drawn onto a canvas, the audio is taken from a `MediaElementAudioSourceNode`.
+ * @beta
+ */
+export type MediaElementCaptureMethod = 'captureStream' | 'mozCaptureStream' | 'canvas';
+
+/** @beta */
+export interface MediaElementCapture {
+  stream: MediaStream;
+  method: MediaElementCaptureMethod;
+  /** Stops the captured tracks and releases the resources of the capture. */
+  stop: () => void;
+}
+
+/**
+ * Thrown if a media element cannot be captured with any of the supported methods.
+ * @beta
+ */
+export class MediaElementCaptureError extends Error {
+  /** The method that failed, `undefined` if the browser supports none of them. */
+  readonly method?: MediaElementCaptureMethod;
+
+  constructor(message: string, method?: MediaElementCaptureMethod, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'MediaElementCaptureError';
+    this.method = method;
+  }
+}
+
+/**
+ * Web Audio graph the audio of a media element is routed through. The gain node stays connected
+ * to the destination of the context, so the element remains audible locally.
+ * @beta
+ */
+export interface MediaElementAudioGraph {
+  context: AudioContext;
+  gainNode: GainNode;
+}
+
+interface CapturableMediaElement extends HTMLMediaElement {
+  captureStream?: (frameRate?: number) => MediaStream;
+  mozCaptureStream?: (frameRate?: number) => MediaStream;
+}
+
+// An element can only be connected to a single `MediaElementAudioSourceNode` for its lifetime.
+const audioGraphs = new WeakMap<HTMLMediaElement, MediaElementAudioGraph>();
+
+/**
+ * Routes the audio of the element through a gain node, or returns the graph the element is
+ * already routed through.
+ * @beta
+ */
+export function getMediaElementAudioGraph(element: HTMLMediaElement): MediaElementAudioGraph {
+  let graph = audioGraphs.get(element);
+  if (!graph) {
+    const context = new AudioContext();
+    const gainNode = context.createGain();
+    context.createMediaElementSource(element).connect(gainNode);
+    gainNode.connect(context.destination);
+    graph = { context, gainNode };
+    audioGraphs.set(element, graph);
+  }
+  return graph;
+}
+
+/**
+ * Returns the audio graph of the element if one has been created already.
+ * @beta
+ */
+export function findMediaElementAudioGraph(
+  element: HTMLMediaElement,
+): MediaElementAudioGraph | undefined {
+  return audioGraphs.get(element);
+}
+
+/**
+ * Returns the methods the browser supports to capture the element, in the order
+ * `captureMediaElement` tries them.
+ * @beta
+ */
+export function getMediaElementCaptureMethods(
+  element?: HTMLMediaElement,
+): MediaElementCaptureMethod[] {
+  const target = (element ??
+    (typeof document !== 'undefined' ? document.createElement('video') : undefined)) as
+    | CapturableMediaElement
+    | undefined;
+  if (!target) {
+    return [];
+  }
+  const methods: MediaElementCaptureMethod[] = [];
+  if (typeof target.captureStream === 'function') {
+    methods.push('captureStream');
+  }
+  if (typeof target.mozCaptureStream === 'function') {
+    methods.push('mozCaptureStream');
+  }
+  if (
+    typeof HTMLCanvasElement !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+    typeof AudioContext !== 'undefined'
+  ) {
+    methods.push('canvas');
+  }
+  return methods;
+}
+
+/**
+ * Returns the method `captureMediaElement` tries first for the element, or `undefined` if the
+ * browser supports none.
+ * @beta
+ */
+export function getMediaElementCaptureMethod(
+  element?: HTMLMediaElement,
+): MediaElementCaptureMethod | undefined {
+  return getMediaElementCaptureMethods(element)[0];
+}
+
+/**
+ * Firefox takes the audio of an element away from the speakers once it is captured, so it is
+ * played back through an audio context instead.
+ */
+function monitorCapturedAudio(stream: MediaStream): () => void {
+  const context = new AudioContext();
+  const monitor = (track: MediaStreamTrack) => {
+    if (track.kind === 'audio') {
+      context.createMediaStreamSource(new MediaStream([track])).connect(context.destination);
+    }
+  };
+  const onAddTrack = (event: MediaStreamTrackEvent) => monitor(event.track);
+  stream.getAudioTracks().forEach(monitor);
+  stream.addEventListener('addtrack', onAddTrack);
+  return () => {
+    stream.removeEventListener('addtrack', onAddTrack);
+    context.close();
+  };
+}
+
+function captureWithCanvas(element: HTMLVideoElement, frameRate: number): MediaElementCapture {
+  const canvas = document.createElement('canvas');
+  const context2d = canvas.getContext('2d');
+  if (!context2d) {
+    throw new MediaElementCaptureError('Could not create a canvas to capture the video', 'canvas');
+  }
+  const drawFrame = () => {
+    if (element.videoWidth === 0 || element.videoHeight === 0) {
+      return;
+    }
+    if (canvas.width !== element.videoWidth || canvas.height !== element.videoHeight) {
+      canvas.width = element.videoWidth;
+      canvas.height = element.videoHeight;
+    }
+    context2d.drawImage(element, 0, 0, canvas.width, canvas.height);
+  };
+  drawFrame();
+  // Timers keep running in background tabs, unlike animation frames.
+  const interval = setInterval(drawFrame, 1000 / frameRate);
+  const stream = canvas.captureStream(frameRate);
+
+  const { context, gainNode } = getMediaElementAudioGraph(element);
+  const destination = context.createMediaStreamDestination();
+  gainNode.connect(destination);
+  destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+
+  return {
+    stream,
+    method: 'canvas',
+    stop: () => {
+      clearInterval(interval);
+      gainNode.disconnect(destination);
+      stream.getTracks().forEach((track) => track.stop());
+    },
+  };
+}
+
+function captureWithMethod(
+  element: HTMLVideoElement,
+  method: MediaElementCaptureMethod,
+  frameRate: number,
+): MediaElementCapture {
+  const target = element as CapturableMediaElement;
+  if (method === 'captureStream') {
+    const stream = target.captureStream!(frameRate);
+    return { stream, method, stop: () => stream.getTracks().forEach((t) => t.stop()) };
+  } else if (method === 'mozCaptureStream') {
+    const stream = target.mozCaptureStream!(frameRate);
+    const stopMonitor = monitorCapturedAudio(stream);
+    return {
+      stream,
+      method,
+      stop: () => {
+        stopMonitor();
+        stream.getTracks().forEach((t) => t.stop());
+      },
+    };
+  }
+  return captureWithCanvas(element, frameRate);
+}
+
+/**
+ * Captures the video and audio of a media element into a `MediaStream`. Uses the native
+ * `captureStream`, falls back to `mozCaptureStream` and finally to drawing the video onto a canvas,
+ * also if a method is supported but fails for the element, e.g. for cross-origin media.
+ * @throws {@link MediaElementCaptureError} if none of the methods works for the element.
+ * @beta
+ */
+export function captureMediaElement(
+  element: HTMLVideoElement,
+  frameRate: number = 30,
+): MediaElementCapture {
+  const methods = getMediaElementCaptureMethods(element);
+  if (methods.length === 0) {
+    throw new MediaElementCaptureError('This browser cannot capture media elements');
+  }
+  let error: unknown;
+  for (const method of methods) {
+    try {
+      const capture = captureWithMethod(element, method, frameRate);
+      log.debug(`captured media element with ${method}`);
+      return capture;
+    } catch (e) {
+      log.warn(`capturing the media element with ${method} failed`, e);
+      error = e;
+    }
+  }
+  const method = methods[methods.length - 1];
+  if (error instanceof MediaElementCaptureError) {
+    throw error;
+  }
+  throw new MediaElementCaptureError(`Capturing the media element with ${method} failed`, method, {
+    cause: error,
+  });
+}
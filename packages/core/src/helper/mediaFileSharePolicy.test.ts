@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'vitest';
+import { ParticipantPermission, TrackSource } from '@livekit/protocol';
+import { canShareMediaFile } from './mediaFileSharePolicy';
+
+const permissions = (options: Partial<ParticipantPermission> = {}) =>
+  new ParticipantPermission({ canPublish: true, ...options });
+
+describe('Test canShareMediaFile', () => {
+  test('Participants without permissions cannot share files.', () => {
+    expect(canShareMediaFile({})).toBe(false);
+    expect(canShareMediaFile({ permissions: permissions({ canPublish: false }) })).toBe(false);
+  });
+
+  test('Participants who may publish any source can share files.', () => {
+    expect(canShareMediaFile({ permissions: permissions() }, 'video')).toBe(true);
+    expect(canShareMediaFile({ permissions: permissions() }, 'audio')).toBe(true);
+  });
+
+  test('The allowed sources decide which kind of file can be shared.', () => {
+    const participant = {
+      permissions: permissions({ canPublishSources: [TrackSource.SCREEN_SHARE_AUDIO] }),
+    };
+    expect(canShareMediaFile(participant, 'video')).toBe(false);
+    expect(canShareMediaFile(participant, 'audio')).toBe(true);
+  });
+
+  test('A policy restricts sharing to participants with an allowed attribute value.', () => {
+    const policy = { attribute: 'role', allowedValues: ['host'] };
+    expect(
+      canShareMediaFile(
+        { permissions: permissions(), attributes: { role: 'host' } },
+        'video',
+        policy,
+      ),
+    ).toBe(true);
+    expect(
+      canShareMediaFile(
+        { permissions: permissions(), attributes: { role: 'guest' } },
+        'video',
+        policy,
+      ),
+    ).toBe(false);
+    expect(canShareMediaFile({ permissions: permissions(), attributes: {} }, 'video', policy)).toBe(
+      false,
+    );
+  });
+});
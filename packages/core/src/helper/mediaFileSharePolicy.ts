@@ -0,0 +1,51 @@
+import type { ParticipantPermission } from '@livekit/protocol';
+
+/**
+ * Restricts file sharing to participants whose attribute has one of the allowed values.
+ * @example
+ * ```ts
+ * // Only hosts may share files
+ * const policy: MediaFileSharePolicy = { attribute: 'role', allowedValues: ['host'] };
+ * ```
+ * @beta
+ */
+export interface MediaFileSharePolicy {
+  attribute: string;
+  allowedValues: string[];
+}
+
+// NOTE: the values of the protocol `TrackSource` enum, importing it would increase the bundle size
+const TrackSourceProtocol = {
+  ScreenShare: 3,
+  ScreenShareAudio: 4,
+} as const;
+
+/**
+ * Checks if a participant may share a media file. A video file is published as a screen share,
+ * an audio file as screen share audio, so the participant needs permission to publish that source
+ * and has to satisfy the policy, if any.
+ * @beta
+ */
+export function canShareMediaFile(
+  participant: {
+    permissions?: ParticipantPermission;
+    attributes?: Readonly<Record<string, string>>;
+  },
+  kind: 'video' | 'audio' = 'video',
+  policy?: MediaFileSharePolicy,
+): boolean {
+  const { permissions, attributes } = participant;
+  if (!permissions?.canPublish) {
+    return false;
+  }
+  const source =
+    kind === 'video' ? TrackSourceProtocol.ScreenShare : TrackSourceProtocol.ScreenShareAudio;
+  if (permissions.canPublishSources.length > 0 && !permissions.canPublishSources.includes(source)) {
+    return false;
+  }
+  if (policy) {
+    const value = attributes?.[policy.attribute];
+    return value !== undefined && policy.allowedValues.includes(value);
+  }
+  return true;
+}
@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import {
+  clearSharedMediaStatus,
+  encodeSharedMediaStatus,
+  getSharedMediaPosition,
+  MediaFileShareAttributes,
+  parseSharedMediaStatus,
+} from './sharedMediaStatus';
+
+const status = { name: 'movie.mp4', duration: 120, position: 30.5, paused: false, rate: 1.5 };
+
+describe('Test shared media status attributes', () => {
+  test('The status survives encoding and parsing.', () => {
+    expect(parseSharedMediaStatus(encodeSharedMediaStatus(status))).toStrictEqual(status);
+  });
+
+  test('Participants without a status are not sharing a file.', () => {
+    expect(parseSharedMediaStatus(undefined)).toBeUndefined();
+    expect(parseSharedMediaStatus({ role: 'host' })).toBeUndefined();
+    expect(parseSharedMediaStatus(clearSharedMediaStatus())).toBeUndefined();
+  });
+
+  test('Missing values fall back to sane defaults.', () => {
+    expect(parseSharedMediaStatus({ [MediaFileShareAttributes.Position]: '3' })).toStrictEqual({
+      name: undefined,
+      duration: 0,
+      position: 3,
+      paused: true,
+      rate: 1,
+    });
+  });
+});
+
+describe('Test getSharedMediaPosition', () => {
+  test('The position of a playing file advances with its rate.', () => {
+    expect(getSharedMediaPosition(status, 1000, 3000)).toBe(33.5);
+  });
+
+  test('The position of a paused file stays put.', () => {
+    expect(getSharedMediaPosition({ ...status, paused: true }, 1000, 3000)).toBe(30.5);
+  });
+
+  test('The position does not run past the end of the file.', () => {
+    expect(getSharedMediaPosition(status, 0, 1_000_000)).toBe(120);
+  });
+});
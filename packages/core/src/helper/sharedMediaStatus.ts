@@ -0,0 +1,85 @@
+/**
+ * Attributes a participant sets while sharing a media file, so that viewers can show the
+ * playback status of the file.
+ * @beta
+ */
+export enum MediaFileShareAttributes {
+  Name = 'lk.media_file_share.name',
+  Duration = 'lk.media_file_share.duration',
+  Position = 'lk.media_file_share.position',
+  Paused = 'lk.media_file_share.paused',
+  Rate = 'lk.media_file_share.rate',
+}
+
+/**
+ * Playback status of a shared media file. Times are in seconds.
+ * @beta
+ */
+export interface SharedMediaStatus {
+  name?: string;
+  duration: number;
+  position: number;
+  paused: boolean;
+  rate: number;
+}
+
+/**
+ * Encodes the status as participant attributes.
+ * @beta
+ */
+export function encodeSharedMediaStatus(status: SharedMediaStatus): Record<string, string> {
+  return {
+    [MediaFileShareAttributes.Name]: status.name ?? '',
+    [MediaFileShareAttributes.Duration]: status.duration.toFixed(3),
+    [MediaFileShareAttributes.Position]: status.position.toFixed(3),
+    [MediaFileShareAttributes.Paused]: String(status.paused),
+    [MediaFileShareAttributes.Rate]: String(status.rate),
+  };
+}
+
+/**
+ * Attributes that remove the status of a participant, as empty values delete an attribute.
+ * @beta
+ */
+export function clearSharedMediaStatus(): Record<string, string> {
+  return Object.fromEntries(Object.values(MediaFileShareAttributes).map((key) => [key, '']));
+}
+
+/**
+ * Reads the status from the attributes of a participant, `undefined` if it is not sharing a file.
+ * @beta
+ */
+export function parseSharedMediaStatus(
+  attributes: Readonly<Record<string, string>> | undefined,
+): SharedMediaStatus | undefined {
+  const position = Number(attributes?.[MediaFileShareAttributes.Position]);
+  if (!attributes?.[MediaFileShareAttributes.Position] || !isFinite(position)) {
+    return undefined;
+  }
+  const duration = Number(attributes[MediaFileShareAttributes.Duration]);
+  const rate = Number(attributes[MediaFileShareAttributes.Rate]);
+  return {
+    name: attributes[MediaFileShareAttributes.Name] || undefined,
+    duration: isFinite(duration) ? duration : 0,
+    position,
+    paused: attributes[MediaFileShareAttributes.Paused] !== 'false',
+    rate: isFinite(rate) && rate > 0 ? rate : 1,
+  };
+}
+
+/**
+ * Estimates the current position of a playing file from a status received at `receivedAt`, as the
+ * status is only published when the playback changes and in a coarse interval.
+ * @beta
+ */
+export function getSharedMediaPosition(
+  status: SharedMediaStatus,
+  receivedAt: number,
+  now: number = Date.now(),
+): number {
+  if (status.paused) {
+    return status.position;
+  }
+  const position = status.position + ((now - receivedAt) / 1000) * status.rate;
+  return status.duration > 0 ? Math.min(position, status.duration) : position;
+}
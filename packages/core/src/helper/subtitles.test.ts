@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest';
+import { detectSubtitleFormat, getActiveSubtitleCues, parseSubtitles } from './subtitles';
+
+const srt = `1
+00:00:01,000 --> 00:00:04,500
+Hello <i>there</i>!
+
+2
+00:00:05,250 --> 00:01:02,000
+Two lines
+of text
+`;
+
+const vtt = `WEBVTT
+Kind: captions
+
+NOTE This is a comment
+
+intro
+00:01.000 --> 00:04.500 align:start
+Hello there!
+
+01:00:05.250 --> 01:00:06.000
+Without an id
+`;
+
+describe('Test parseSubtitles', () => {
+  test('SRT cues are parsed with their ids and times.', () => {
+    expect(parseSubtitles(srt)).toStrictEqual([
+      { id: '1', startTime: 1, endTime: 4.5, text: 'Hello there!' },
+      { id: '2', startTime: 5.25, endTime: 62, text: 'Two lines\nof text' },
+    ]);
+  });
+
+  test('WebVTT headers, notes and cue settings are skipped.', () => {
+    expect(parseSubtitles(vtt)).toStrictEqual([
+      { id: 'intro', startTime: 1, endTime: 4.5, text: 'Hello there!' },
+      { id: 'vtt-2', startTime: 3605.25, endTime: 3606, text: 'Without an id' },
+    ]);
+  });
+
+  test('Windows line endings are supported.', () => {
+    expect(parseSubtitles(srt.replace(/\n/g, '\r\n'))).toHaveLength(2);
+  });
+
+  test('The format is detected by the WebVTT header.', () => {
+    expect(detectSubtitleFormat(vtt)).toBe('vtt');
+    expect(detectSubtitleFormat(`\uFEFF${vtt}`)).toBe('vtt');
+    expect(detectSubtitleFormat(srt)).toBe('srt');
+  });
+});
+
+describe('Test getActiveSubtitleCues', () => {
+  const cues = parseSubtitles(srt);
+
+  test.each([
+    { position: 0.5, ids: [] },
+    { position: 1, ids: ['1'] },
+    { position: 4.5, ids: [] },
+    { position: 30, ids: ['2'] },
+  ])('At $position seconds the cues $ids are active.', ({ position, ids }) => {
+    expect(getActiveSubtitleCues(cues, position).map((cue) => cue.id)).toStrictEqual(ids);
+  });
+});
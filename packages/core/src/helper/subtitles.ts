@@ -0,0 +1,85 @@
+/**
+ * A single cue of a subtitle file. Times are in seconds.
+ * @beta
+ */
+export interface SubtitleCue {
+  id: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+/** @beta */
+export type SubtitleFormat = 'srt' | 'vtt';
+
+const TIMING_REGEX =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/** Parses `hh:mm:ss,mmm` (SRT) or `[hh:]mm:ss.mmm` (WebVTT) into seconds. */
+function parseTimestamp(timestamp: string): number {
+  const [clock, fraction] = timestamp.split(/[.,]/);
+  const seconds = clock
+    .split(':')
+    .map(Number)
+    .reduce((acc, part) => acc * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+/**
+ * Detects the format of a subtitle file by its content.
+ * @beta
+ */
+export function detectSubtitleFormat(content: string): SubtitleFormat {
+  return content.replace(/^\uFEFF/, '').startsWith('WEBVTT') ? 'vtt' : 'srt';
+}
+
+/**
+ * Parses the content of an SRT or WebVTT file into cues sorted by their start time.
+ * @remarks
+ * Blocks without a valid timing line, as well as WebVTT `NOTE`, `STYLE` and `REGION` blocks, are
+ * skipped. Formatting tags such as `<i>` are removed from the cue text.
+ * @beta
+ */
+export function parseSubtitles(
+  content: string,
+  format: SubtitleFormat = detectSubtitleFormat(content),
+): SubtitleCue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: SubtitleCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim() !== '');
+    const timingIndex = lines.findIndex((line) => TIMING_REGEX.test(line));
+    if (timingIndex === -1 || timingIndex > 1) {
+      // The WebVTT header and metadata blocks end up here as well
+      continue;
+    }
+    const [, start, end] = lines[timingIndex].match(TIMING_REGEX)!;
+    const text = lines
+      .slice(timingIndex + 1)
+      .join('\n')
+      .replace(/<[^>]+>/g, '')
+      .trim();
+    if (!text) {
+      continue;
+    }
+    cues.push({
+      id: timingIndex === 1 ? lines[0].trim() : `${format}-${cues.length + 1}`,
+      startTime: parseTimestamp(start),
+      endTime: parseTimestamp(end),
+      text,
+    });
+  }
+  return cues.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Returns the cues that are shown at the given playback position in seconds.
+ * @beta
+ */
+export function getActiveSubtitleCues(cues: SubtitleCue[], position: number): SubtitleCue[] {
+  return cues.filter((cue) => position >= cue.startTime && position < cue.endTime);
+}
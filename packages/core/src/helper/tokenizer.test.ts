@@ -0,0 +1,29 @@
+import { describe, test, expect } from 'vitest';
+import { createRichTextGrammar, tokenize } from './tokenizer';
+
+describe('Test tokenize with the rich text grammar', () => {
+  test('Formatting, code and mentions are recognized.', () => {
+    expect(tokenize('**bold** _it_ `x` @bob', createRichTextGrammar())).toStrictEqual([
+      { type: 'bold', content: '**bold**' },
+      ' ',
+      { type: 'italic', content: '_it_' },
+      ' ',
+      { type: 'code', content: '`x`' },
+      ' ',
+      { type: 'mention', content: '@bob' },
+    ]);
+  });
+
+  test('Matches within code blocks are not tokenized.', () => {
+    const input = '```\nsee https://livekit.io or mail a@b.io\n```';
+    expect(tokenize(input, createRichTextGrammar())).toStrictEqual([
+      { type: 'codeBlock', content: input },
+    ]);
+  });
+
+  test('Underscores in urls are not formatted.', () => {
+    expect(tokenize('https://x.io/a_b_c', createRichTextGrammar())).toStrictEqual([
+      { type: 'url', content: 'https://x.io/a_b_c' },
+    ]);
+  });
+});
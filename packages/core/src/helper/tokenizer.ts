@@ -10,7 +10,30 @@ export const createDefaultGrammar = () => {
   } satisfies TokenizeGrammar;
 };
 
+/**
+ * Matches `@identity` mentions that are not part of a word or an email address.
+ * @beta
+ */
+export const createMentionRegExp = () => /(?<![\w@.])@[\w-]+(?:\.[\w-]+)*/g;
+
+/**
+ * The default grammar extended by Markdown-like formatting and `@identity` mentions. Code is
+ * matched first, so that its content is not formatted further.
+ * @beta
+ */
+export const createRichTextGrammar = () => {
+  return {
+    codeBlock: /```[\s\S]+?```/g,
+    code: /`[^`\n]+`/g,
+    ...createDefaultGrammar(),
+    mention: createMentionRegExp(),
+    bold: /\*\*(?=\S)[^*\n]+?\*\*/g,
+    italic: /(?<![*\w])\*(?=[^\s*])[^*\n]+?\*(?!\*)|(?<!\w)_(?=\S)[^_\n]+?_(?!\w)/g,
+  } satisfies TokenizeGrammar;
+};
+
 export function tokenize<T extends TokenizeGrammar>(input: string, grammar: T) {
+  let end = 0;
   const matches = Object.entries(grammar)
     .map(([type, rx], weight) =>
       Array.from(input.matchAll(rx)).map(({ index, 0: content }) => ({
@@ -25,10 +48,11 @@ export function tokenize<T extends TokenizeGrammar>(input: string, grammar: T) {
       const d = a.index - b.index;
       return d !== 0 ? d : a.weight - b.weight;
     })
-    .filter(({ index }, i, arr) => {
-      if (i === 0) return true;
-      const prev = arr[i - 1];
-      return prev.index + prev.content.length <= index;
+    .filter(({ index, content }) => {
+      // Skip matches that overlap an accepted one, e.g. a url within a code block
+      if (index < end) return false;
+      end = index + content.length;
+      return true;
     });
 
   const tokens = [];
@@ -16,12 +16,26 @@ export * from './components/participantName';
 export * from './components/mediaTrack';
 export * from './components/participantTile';
 export * from './components/chat';
+export * from './components/chatHistory';
+export * from './components/chatReactions';
+export * from './components/chatThreads';
+export * from './components/chatConversations';
+export * from './components/chatTyping';
+export * from './components/chatReadReceipts';
+export * from './components/chatAttachments';
+export * from './components/chatMentions';
+export * from './components/chatSearch';
+export * from './components/chatModeration';
+export * from './components/chatRateLimit';
 export * from './components/startAudio';
 export * from './components/startVideo';
 export * from './components/chatToggle';
 export * from './components/focusToggle';
 export * from './components/clearPinButton';
 export * from './components/room';
+export * from './components/playbackSync';
+export * from './components/microphoneMix';
+export * from './components/captions';
 
 export * from './observables/room';
 export * from './observables/participant';
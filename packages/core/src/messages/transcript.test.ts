@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import { Participant } from 'livekit-client';
+import type { ReceivedMessage } from './types';
+import { exportTranscript, toTranscriptEntries } from './transcript';
+
+const alice = new Participant('sid_A', 'alice', 'Alice');
+const agent = new Participant('sid_B', 'agent');
+
+const messages: ReceivedMessage[] = [
+  {
+    id: '2',
+    type: 'agentTranscript',
+    timestamp: 2000,
+    message: 'Hello <Alice>',
+    from: agent,
+  },
+  {
+    id: '1',
+    type: 'chatMessage',
+    timestamp: 1000,
+    editTimestamp: 1500,
+    message: 'Hi\nthere',
+    from: alice,
+    attachments: [
+      { id: 'f', name: 'notes.pdf', mimeType: 'application/pdf', size: 42, state: 'complete' },
+    ],
+  },
+];
+
+const formatTimestamp = (timestamp: number) => `t${timestamp}`;
+
+describe('Test toTranscriptEntries', () => {
+  test('Entries are sorted and keep names, edits and attachments.', () => {
+    const entries = toTranscriptEntries(messages);
+    expect(entries.map((entry) => entry.id)).toStrictEqual(['1', '2']);
+    expect(entries[0]).toMatchObject({
+      from: { identity: 'alice', name: 'Alice' },
+      editTimestamp: 1500,
+      attachments: [{ name: 'notes.pdf', mimeType: 'application/pdf', size: 42 }],
+    });
+  });
+});
+
+describe('Test exportTranscript', () => {
+  test('Plain text has one line per message.', () => {
+    expect(exportTranscript(messages, 'text', { title: 'Call', formatTimestamp })).toBe(
+      [
+        'Call',
+        '',
+        '[t1000] Alice: Hi',
+        '  there (edited)',
+        '  [attachment] notes.pdf (42 bytes)',
+        '[t2000] agent: Hello <Alice>',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('Markdown marks edits and transcriptions.', () => {
+    const markdown = exportTranscript(messages, 'markdown', { formatTimestamp });
+    expect(markdown).toContain('**Alice** · t1000 · edited');
+    expect(markdown).toContain('**agent** · t2000 · transcription');
+    expect(markdown).toContain('- Attachment: notes.pdf (42 bytes)');
+  });
+
+  test('HTML escapes the messages.', () => {
+    expect(exportTranscript(messages, 'html')).toContain('<p>Hello &lt;Alice&gt;</p>');
+  });
+
+  test('JSON contains the entries.', () => {
+    const { messages: entries } = JSON.parse(exportTranscript(messages, 'json'));
+    expect(entries).toHaveLength(2);
+  });
+});
@@ -0,0 +1,176 @@
+import type { ReceivedMessage } from './types';
+
+/** @beta */
+export type TranscriptFormat = 'markdown' | 'json' | 'html' | 'text';
+
+/** @beta */
+export interface TranscriptExportOptions {
+  /** Shown as the heading of the transcript. */
+  title?: string;
+  /**
+   * Formats the timestamps of the messages.
+   * @defaultValue ISO 8601, e.g. `2024-01-01T12:00:00.000Z`
+   */
+  formatTimestamp?: (timestamp: number) => string;
+}
+
+/**
+ * A message of the transcript, independent of whether it was sent in the chat or transcribed.
+ * @beta
+ */
+export interface TranscriptEntry {
+  id: string;
+  type: ReceivedMessage['type'];
+  timestamp: number;
+  /** Set if the message was edited after it was sent. */
+  editTimestamp?: number;
+  from?: { identity: string; name?: string };
+  message: string;
+  attachments: Array<{ name: string; mimeType: string; size?: number }>;
+}
+
+/** File extension and MIME type of each transcript format. @beta */
+export const transcriptFileTypes: Record<
+  TranscriptFormat,
+  { extension: string; mimeType: string }
+> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+};
+
+/**
+ * Turns the messages into plain entries, sorted by the time they were sent.
+ * @beta
+ */
+export function toTranscriptEntries(messages: ReceivedMessage[]): TranscriptEntry[] {
+  return [...messages]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((msg) => {
+      const entry: TranscriptEntry = {
+        id: msg.id,
+        type: msg.type,
+        timestamp: msg.timestamp,
+        from: msg.from && { identity: msg.from.identity, name: msg.from.name || undefined },
+        message: msg.message,
+        attachments: [],
+      };
+      if (msg.type === 'chatMessage') {
+        entry.editTimestamp = msg.editTimestamp;
+        entry.attachments =
+          msg.attachments?.map(({ name, mimeType, size }) => ({ name, mimeType, size })) ??
+          msg.attachedFiles?.map(({ name, type, size }) => ({ name, mimeType: type, size })) ??
+          [];
+      }
+      return entry;
+    });
+}
+
+function getSenderName(entry: TranscriptEntry) {
+  return (
+    entry.from?.name ||
+    entry.from?.identity ||
+    (entry.type === 'agentTranscript' ? 'Agent' : 'Unknown')
+  );
+}
+
+function describeAttachment({ name, size }: TranscriptEntry['attachments'][number]) {
+  return size === undefined ? name : `${name} (${size} bytes)`;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toMarkdown(entries: TranscriptEntry[], title: string, format: (ts: number) => string) {
+  const blocks = entries.map((entry) => {
+    const header = [
+      `**${getSenderName(entry)}**`,
+      format(entry.timestamp),
+      entry.type !== 'chatMessage' && 'transcription',
+      entry.editTimestamp && 'edited',
+    ]
+      .filter(Boolean)
+      .join(' · ');
+    const attachments = entry.attachments.map((a) => `- Attachment: ${describeAttachment(a)}`);
+    return [header, '', entry.message, ...(attachments.length ? ['', ...attachments] : [])].join(
+      '\n',
+    );
+  });
+  return [`# ${title}`, ...blocks].join('\n\n') + '\n';
+}
+
+function toHtml(entries: TranscriptEntry[], title: string, format: (ts: number) => string) {
+  const items = entries.map((entry) => {
+    const attachments = entry.attachments.length
+      ? `<ul>${entry.attachments.map((a) => `<li>${escapeHtml(describeAttachment(a))}</li>`).join('')}</ul>`
+      : '';
+    return [
+      `<li data-type="${entry.type}">`,
+      `<p><strong>${escapeHtml(getSenderName(entry))}</strong> `,
+      `<time datetime="${new Date(entry.timestamp).toISOString()}">${escapeHtml(format(entry.timestamp))}</time>`,
+      entry.editTimestamp ? ' <em>(edited)</em>' : '',
+      '</p>',
+      `<p>${escapeHtml(entry.message).replace(/\n/g, '<br>')}</p>`,
+      attachments,
+      '</li>',
+    ].join('');
+  });
+  return [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head><body>`,
+    `<h1>${escapeHtml(title)}</h1>`,
+    '<ol>',
+    ...items,
+    '</ol>',
+    '</body></html>',
+    '',
+  ].join('\n');
+}
+
+function toText(entries: TranscriptEntry[], title: string, format: (ts: number) => string) {
+  const lines = entries.map((entry) => {
+    const edited = entry.editTimestamp ? ' (edited)' : '';
+    // Indent continuation lines, so every message starts with its sender
+    const message = entry.message.replace(/\n/g, '\n  ');
+    return [
+      `[${format(entry.timestamp)}] ${getSenderName(entry)}: ${message}${edited}`,
+      ...entry.attachments.map((a) => `  [attachment] ${describeAttachment(a)}`),
+    ].join('\n');
+  });
+  return [title, '', ...lines, ''].join('\n');
+}
+
+/**
+ * Serializes chat messages and transcriptions, e.g. those of `useSessionMessages`, into a
+ * transcript with the names of the senders, timestamps, edit markers and attached file names.
+ * @beta
+ */
+export function exportTranscript(
+  messages: ReceivedMessage[],
+  format: TranscriptFormat,
+  options: TranscriptExportOptions = {},
+): string {
+  const entries = toTranscriptEntries(messages);
+  const title = options.title ?? 'Transcript';
+  const formatTimestamp =
+    options.formatTimestamp ?? ((timestamp) => new Date(timestamp).toISOString());
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ title, messages: entries }, null, 2);
+    case 'html':
+      return toHtml(entries, title, formatTimestamp);
+    case 'text':
+      return toText(entries, title, formatTimestamp);
+    case 'markdown':
+    default:
+      return toMarkdown(entries, title, formatTimestamp);
+  }
+}
@@ -5,6 +5,24 @@ export type { ChatMessage };
 
 export type SentMessage = ChatMessage;
 
+/**
+ * A file attached to a chat message, which may still be transferring.
+ * @beta
+ */
+export interface ChatAttachment {
+  /** The id of the byte stream the file is transferred with. */
+  id: string;
+  name: string;
+  mimeType: string;
+  /** Size in bytes, if known. */
+  size?: number;
+  /** Between 0 and 1 while transferring, if the size is known. */
+  progress?: number;
+  state: 'transferring' | 'complete' | 'cancelled' | 'failed';
+  /** Available once the transfer is complete. */
+  file?: File;
+}
+
 type ReceivedMessageWithType<Type extends string, Metadata extends object = object> = {
   id: string;
   timestamp: number;
@@ -19,8 +37,22 @@ type ReceivedMessageWithType<Type extends string, Metadata extends object = obje
 export type ReceivedChatMessage = ReceivedMessageWithType<
   'chatMessage',
   ChatMessage & {
+    /**
+     * For messages restored from the chat history whose sender is not in the room, this is a stub
+     * that only carries the identity and name of the sender.
+     */
     from?: Participant;
     attributes?: Record<string, string>;
+    /** Identities of the participants that reacted to the message, by emoji. */
+    reactions?: Record<string, string[]>;
+    /** Set for messages that were only sent to some participants of the room. */
+    isPrivate?: boolean;
+    /** The identities a private message was sent to. */
+    recipientIdentities?: string[];
+    /** Files attached to the message, including the state of their transfer. */
+    attachments?: ChatAttachment[];
+    /** Reasons moderation middleware flagged the message for, e.g. `'link'`. */
+    flags?: string[];
   }
 >;
 
@@ -13,7 +13,12 @@ import { ReceivedChatMessage } from '../components/chat';
 
 export const DataTopic = {
   CHAT: 'lk.chat',
+  CHAT_REACTIONS: 'lk.chat.reactions',
+  CHAT_TYPING: 'lk.chat.typing',
+  CHAT_READ_RECEIPTS: 'lk.chat.read',
   TRANSCRIPTION: 'lk.transcription',
+  PLAYBACK_SYNC: 'lk.playback-sync',
+  CAPTIONS: 'lk.captions',
 } as const;
 
 /** @deprecated */
@@ -11,6 +11,7 @@ import { map, Observable, startWith } from 'rxjs';
 import { allParticipantRoomEvents, participantTrackEvents } from '../helper';
 import { log } from '../logger';
 import type { TrackReference } from '../track-reference';
+import { isMediaFileShareTrack } from '../track-reference';
 import { observeRoomEvents } from './room';
 import type { ParticipantTrackIdentifier } from '../types';
 import { observeParticipantEvents } from './participant';
@@ -59,6 +60,7 @@ function getTrackReferences(
   room: Room,
   sources: Track.Source[],
   onlySubscribedTracks = true,
+  excludeMediaFileShares = false,
 ): { trackReferences: TrackReference[]; participants: Participant[] } {
   const localParticipant = room.localParticipant;
   const allParticipants = [localParticipant, ...Array.from(room.remoteParticipants.values())];
@@ -81,7 +83,8 @@ function getTrackReferences(
             publication: track,
             source: track.source,
           };
-        });
+        })
+        .filter((trackRef) => !excludeMediaFileShares || !isMediaFileShareTrack(trackRef));
 
       trackReferences.push(...sourceReferences);
     });
@@ -122,6 +125,8 @@ function getParticipantTrackRefs(
 type TrackReferencesObservableOptions = {
   additionalRoomEvents?: RoomEvent[];
   onlySubscribed?: boolean;
+  /** Leave out the tracks of shared media files, so screen share sources only match real screen shares. */
+  excludeMediaFileShares?: boolean;
 };
 
 export function trackReferencesObservable(
@@ -131,6 +136,7 @@ export function trackReferencesObservable(
 ): Observable<{ trackReferences: TrackReference[]; participants: Participant[] }> {
   const additionalRoomEvents = options.additionalRoomEvents ?? allParticipantRoomEvents;
   const onlySubscribedTracks: boolean = options.onlySubscribed ?? true;
+  const excludeMediaFileShares: boolean = options.excludeMediaFileShares ?? false;
   const roomEvents = Array.from(
     new Set([
       RoomEvent.ParticipantConnected,
@@ -147,11 +153,11 @@ export function trackReferencesObservable(
 
   const observable = observeRoomEvents(room, ...roomEvents).pipe(
     map((room) => {
-      const data = getTrackReferences(room, sources, onlySubscribedTracks);
+      const data = getTrackReferences(room, sources, onlySubscribedTracks, excludeMediaFileShares);
       log.debug(`TrackReference[] was updated. (length ${data.trackReferences.length})`, data);
       return data;
     }),
-    startWith(getTrackReferences(room, sources, onlySubscribedTracks)),
+    startWith(getTrackReferences(room, sources, onlySubscribedTracks, excludeMediaFileShares)),
   );
 
   return observable;
@@ -4,6 +4,7 @@ import {
   flatTrackReferenceArray,
   mockTrackReferenceSubscribed,
 } from '../track-reference/test-utils';
+import { MediaFileShareTrackName } from '../track-reference';
 import { sortTrackReferences } from './sort-track-bundles';
 
 describe.concurrent('Test sorting track bundles by source and isLocal.', () => {
@@ -54,4 +55,21 @@ describe.concurrent('Test sorting track bundles by source and isLocal.', () => {
     const result = sortTrackReferences(unsorted);
     expect(flatTrackReferenceArray(result)).toStrictEqual(flatTrackReferenceArray(expected));
   });
+
+  test('Shared media files come after screen shares and before cameras.', () => {
+    const mediaFileShare = mockTrackReferenceSubscribed('E', Track.Source.ScreenShare, {
+      mockPublication: true,
+      mockTrackName: MediaFileShareTrackName.Video,
+    });
+    const screenShare = mockTrackReferenceSubscribed('C', Track.Source.ScreenShare, {
+      mockPublication: true,
+    });
+    const camera = mockTrackReferenceSubscribed('D', Track.Source.Camera, {
+      mockPublication: true,
+    });
+    const result = sortTrackReferences([camera, mediaFileShare, screenShare]);
+    expect(flatTrackReferenceArray(result)).toStrictEqual(
+      flatTrackReferenceArray([screenShare, mediaFileShare, camera]),
+    );
+  });
 });
@@ -1,6 +1,6 @@
 import { Track } from 'livekit-client';
 import type { TrackReferenceOrPlaceholder } from '../track-reference';
-import { isTrackReference } from '../track-reference';
+import { isMediaFileShareTrack, isTrackReference } from '../track-reference';
 import {
   sortParticipantsByAudioLevel,
   sortParticipantsByIsSpeaking,
@@ -15,22 +15,27 @@ import {
  * 1. local camera track (publication.isLocal)
  * 2. remote screen_share track
  * 3. local screen_share track
- * 4. remote dominant speaker camera track (sorted by speaker with the loudest audio level)
- * 5. other remote speakers that are recently active
- * 6. remote unmuted camera tracks
- * 7. remote tracks sorted by joinedAt
+ * 4. remote shared media file track
+ * 5. local shared media file track
+ * 6. remote dominant speaker camera track (sorted by speaker with the loudest audio level)
+ * 7. other remote speakers that are recently active
+ * 8. remote unmuted camera tracks
+ * 9. remote tracks sorted by joinedAt
  */
 export function sortTrackReferences(
   tracks: TrackReferenceOrPlaceholder[],
 ): TrackReferenceOrPlaceholder[] {
   const localTracks: TrackReferenceOrPlaceholder[] = [];
   const screenShareTracks: TrackReferenceOrPlaceholder[] = [];
+  const mediaFileShareTracks: TrackReferenceOrPlaceholder[] = [];
   const cameraTracks: TrackReferenceOrPlaceholder[] = [];
   const undefinedTracks: TrackReferenceOrPlaceholder[] = [];
 
   tracks.forEach((trackRef) => {
     if (trackRef.participant.isLocal && trackRef.source === Track.Source.Camera) {
       localTracks.push(trackRef);
+    } else if (isMediaFileShareTrack(trackRef)) {
+      mediaFileShareTracks.push(trackRef);
     } else if (trackRef.source === Track.Source.ScreenShare) {
       screenShareTracks.push(trackRef);
     } else if (trackRef.source === Track.Source.Camera) {
@@ -41,13 +46,20 @@ export function sortTrackReferences(
   });
 
   const sortedScreenShareTracks = sortScreenShareTracks(screenShareTracks);
+  const sortedMediaFileShareTracks = sortScreenShareTracks(mediaFileShareTracks);
   const sortedCameraTracks = sortCameraTracks(cameraTracks);
 
-  return [...localTracks, ...sortedScreenShareTracks, ...sortedCameraTracks, ...undefinedTracks];
+  return [
+    ...localTracks,
+    ...sortedScreenShareTracks,
+    ...sortedMediaFileShareTracks,
+    ...sortedCameraTracks,
+    ...undefinedTracks,
+  ];
 }
 
 /**
- * Sort an array of `TrackReference` screen shares.
+ * Sort an array of `TrackReference` screen shares or shared media files.
  * Main sorting order:
  * 1. remote screen shares
  * 2. local screen shares
@@ -38,6 +38,7 @@ type mockTrackReferenceSubscribedOptions = {
   mockPublication?: boolean;
   mockParticipant?: boolean;
   mockIsLocal?: boolean;
+  mockTrackName?: string;
 };
 
 export const mockTrackReferenceSubscribed = (
@@ -61,7 +62,12 @@ export const mockTrackReferenceSubscribed = (
       ? (mockParticipant(id, options.mockIsLocal ?? false) as Participant)
       : new Participant(`${id}`, `${id}`),
     publication: options.mockPublication
-      ? (mockTrackPublication(`publicationId(${id})`, kind, source) as TrackPublication)
+      ? (mockTrackPublication(
+          `publicationId(${id})`,
+          kind,
+          source,
+          options.mockTrackName,
+        ) as TrackPublication)
       : publication,
     source,
   };
@@ -71,11 +77,12 @@ const mockTrackPublication = (
   id: string,
   kind: Track.Kind,
   source: Track.Source,
+  trackName: string = `name_${id}`,
 ): Pick<TrackPublication, 'kind' | 'trackSid' | 'trackName' | 'source'> => {
   return {
     kind,
     trackSid: id,
-    trackName: `name_${id}`,
+    trackName,
     source: source,
   };
 };
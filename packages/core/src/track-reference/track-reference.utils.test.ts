@@ -2,7 +2,12 @@ import { describe, test, expect, expectTypeOf } from 'vitest';
 import { mockTrackReferencePlaceholder, mockTrackReferenceSubscribed } from './test-utils';
 import type { Participant, TrackPublication } from 'livekit-client';
 import { Track } from 'livekit-client';
-import { isPlaceholderReplacement } from './track-reference.utils';
+import {
+  isMediaFileShareTrack,
+  isPlaceholderReplacement,
+  isScreenShareTrack,
+  MediaFileShareTrackName,
+} from './track-reference.utils';
 
 describe('Test mocking functions ', () => {
   test('mockTrackReferenceSubscribed without options.', () => {
@@ -56,3 +61,47 @@ describe('Test if the current TrackReferencePlaceholder can be replaced with the
     },
   );
 });
+
+describe('Test media file share classification.', () => {
+  test.each([
+    {
+      trackRef: mockTrackReferenceSubscribed('A', Track.Source.ScreenShare, {
+        mockPublication: true,
+        mockTrackName: MediaFileShareTrackName.Video,
+      }),
+      isMediaFileShare: true,
+      isScreenShare: false,
+    },
+    {
+      trackRef: mockTrackReferenceSubscribed('A', Track.Source.ScreenShareAudio, {
+        mockPublication: true,
+        mockTrackName: MediaFileShareTrackName.Audio,
+      }),
+      isMediaFileShare: true,
+      isScreenShare: false,
+    },
+    {
+      trackRef: mockTrackReferenceSubscribed('A', Track.Source.ScreenShare, {
+        mockPublication: true,
+      }),
+      isMediaFileShare: false,
+      isScreenShare: true,
+    },
+    {
+      trackRef: mockTrackReferencePlaceholder('A', Track.Source.ScreenShare),
+      isMediaFileShare: false,
+      isScreenShare: true,
+    },
+    {
+      trackRef: mockTrackReferenceSubscribed('A', Track.Source.Camera, { mockPublication: true }),
+      isMediaFileShare: false,
+      isScreenShare: false,
+    },
+  ])(
+    'Track reference $trackRef.source is classified correctly.',
+    ({ trackRef, isMediaFileShare, isScreenShare }) => {
+      expect(isMediaFileShareTrack(trackRef)).toBe(isMediaFileShare);
+      expect(isScreenShareTrack(trackRef)).toBe(isScreenShare);
+    },
+  );
+});
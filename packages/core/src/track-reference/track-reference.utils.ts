@@ -1,4 +1,4 @@
-import type { Track } from 'livekit-client';
+import { Track } from 'livekit-client';
 import type { PinState } from '../types';
 import type { TrackReferenceOrPlaceholder } from './track-reference.types';
 import { isTrackReference, isTrackReferencePlaceholder } from './track-reference.types';
@@ -95,3 +95,40 @@ export function isPlaceholderReplacement(
     nextTrackRef.source === currentTrackRef.source
   );
 }
+
+/**
+ * Names of the tracks a shared media file is published with.
+ * @remarks
+ * The video of a shared file is published as `Track.Source.ScreenShare` and its audio as
+ * `Track.Source.ScreenShareAudio`. The track name is what tells them apart from a real screen share.
+ * @beta
+ */
+export const MediaFileShareTrackName = {
+  Video: 'lk.media-file-share.video',
+  Audio: 'lk.media-file-share.audio',
+} as const;
+
+/**
+ * Check if the `TrackReference` belongs to a shared media file (video or audio).
+ * @beta
+ */
+export function isMediaFileShareTrack(trackReference: TrackReferenceOrPlaceholder): boolean {
+  return (
+    isTrackReference(trackReference) &&
+    (Object.values(MediaFileShareTrackName) as string[]).includes(
+      trackReference.publication.trackName,
+    )
+  );
+}
+
+/**
+ * Check if the `TrackReference` is a real screen share (video or audio) and not a shared media file.
+ * @beta
+ */
+export function isScreenShareTrack(trackReference: TrackReferenceOrPlaceholder): boolean {
+  const source = getTrackReferenceSource(trackReference);
+  return (
+    (source === Track.Source.ScreenShare || source === Track.Source.ScreenShareAudio) &&
+    !isMediaFileShareTrack(trackReference)
+  );
+}
@@ -11,6 +11,8 @@ export const PIN_DEFAULT_STATE: PinState = [];
 export type WidgetState = {
   showChat: boolean;
   unreadMessages: number;
+  /** The number of unread messages that mention the local participant. */
+  unreadMentions?: number;
   showSettings?: boolean;
 };
 export const WIDGET_DEFAULT_STATE: WidgetState = {
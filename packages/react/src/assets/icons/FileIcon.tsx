@@ -0,0 +1,19 @@
+/**
+ * WARNING: This file was auto-generated by svgr. Do not edit.
+ */
+import * as React from 'react';
+import type { SVGProps } from 'react';
+/**
+ * @internal
+ */
+const SvgFileIcon = (props: SVGProps<SVGSVGElement>) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width={16} height={18} fill="none" {...props}>
+    <path
+      fill="currentColor"
+      fillRule="evenodd"
+      d="M1 2.75A2.75 2.75 0 0 1 3.75 0h5.629c.73 0 1.429.29 1.944.805l2.871 2.872A2.75 2.75 0 0 1 15 5.62v9.629A2.75 2.75 0 0 1 12.25 18h-8.5A2.75 2.75 0 0 1 1 15.25V2.75ZM3.75 1.5c-.69 0-1.25.56-1.25 1.25v12.5c0 .69.56 1.25 1.25 1.25h8.5c.69 0 1.25-.56 1.25-1.25V6h-2.75A1.75 1.75 0 0 1 9 4.25V1.5H3.75Zm6.75.56 2.44 2.44h-2.19a.25.25 0 0 1-.25-.25V2.06Z"
+      clipRule="evenodd"
+    />
+  </svg>
+);
+export default SvgFileIcon;
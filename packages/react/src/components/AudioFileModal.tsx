@@ -0,0 +1,291 @@
+import * as React from 'react';
+import type { MediaFileSharePolicy } from '@livekit/components-core';
+import { VideoFilePlayer } from './VideoFilePlayer';
+import { VideoFileControls, formatPlaybackTime } from './VideoFileControls';
+import { useVideoFileShare } from '../hooks/useVideoFileShare';
+import { useLoopRegion } from '../hooks/useLoopRegion';
+import { useAudioFileAnalysis } from '../hooks/useAudioFileAnalysis';
+
+export interface AudioFileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Restricts file sharing to participants with a certain attribute, e.g. hosts. */
+  policy?: MediaFileSharePolicy;
+}
+
+/** Default length of a fade in seconds. */
+const DEFAULT_FADE_DURATION = 2;
+
+/**
+ * Shares the audio of a file, e.g. a backing track, into the room.
+ */
+export function AudioFileModal({ isOpen, onClose, policy }: AudioFileModalProps) {
+  const [selectedFile, setSelectedFile] = React.useState<File | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [mixWithMicrophone, setMixWithMicrophone] = React.useState(false);
+  const [fadeDuration, setFadeDuration] = React.useState(DEFAULT_FADE_DURATION);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const {
+    videoElement: mediaElement,
+    state,
+    isSharing,
+    isLoading,
+    error: shareError,
+    gain,
+    setVideoElement,
+    setGain,
+    fadeIn,
+    fadeOut,
+    isMixingWithMicrophone,
+    canShare,
+    activeSharer,
+    startSharing,
+    stopSharing,
+  } = useVideoFileShare({
+    kind: 'audio',
+    onError: (err) => setError(err.message),
+    onTrackPublished: () => setError(null),
+    mixWithMicrophone,
+    policy,
+    whenBusy: 'queue',
+    fileName: selectedFile?.name,
+  });
+  const { loopRegion, setLoopStart, setLoopEnd, clearLoop } = useLoopRegion(mediaElement);
+  const { analysis, isAnalyzing } = useAudioFileAnalysis(selectedFile);
+
+  const handleFileSelect = React.useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // Allow selecting the same file again
+      e.target.value = '';
+      if (!file) return;
+
+      if (!file.type.startsWith('audio/')) {
+        setError('Please select a valid audio file');
+        return;
+      }
+      // The published track follows the element, so a share continues with the new file
+      setError(null);
+      clearLoop();
+      setSelectedFile(file);
+    },
+    [clearLoop],
+  );
+
+  const handleStartSharing = React.useCallback(async () => {
+    if (!selectedFile) {
+      setError('Please select an audio file first');
+      return;
+    }
+    await startSharing();
+  }, [selectedFile, startSharing]);
+
+  // Someone else's share blocks starting a new one, so it is queued behind it
+  const sharerName =
+    activeSharer && !activeSharer.isLocal && (activeSharer.name || activeSharer.identity);
+  // Only one file can be shared at a time, the other share has to be stopped first
+  const isSharingOtherFile = !!activeSharer?.isLocal;
+  const isActive = state === 'waiting' || state === 'sharing' || state === 'stopping';
+
+  const handleClose = React.useCallback(() => {
+    if (isActive) {
+      stopSharing();
+    }
+    setSelectedFile(null);
+    clearLoop();
+    setError(null);
+    onClose();
+  }, [isActive, stopSharing, clearLoop, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="video-file-modal-overlay" onClick={handleClose}>
+      <div className="video-file-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Share Audio File</h2>
+          <button className="close-button" onClick={handleClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="modal-content">
+          {/* File Input */}
+          <div className="file-input-section">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="audio/*"
+              onChange={handleFileSelect}
+              style={{ display: 'none' }}
+            />
+            <button className="lk-button" onClick={() => fileInputRef.current?.click()}>
+              {selectedFile ? 'Change Audio File' : 'Choose Audio File'}
+            </button>
+            {selectedFile && (
+              <div className="selected-file-info">
+                🎵 {selectedFile.name}{' '}
+                <span className="file-size">
+                  ({(selectedFile.size / (1024 * 1024)).toFixed(2)} MB)
+                </span>
+              </div>
+            )}
+            {selectedFile && (
+              <div className="audio-file-readout">
+                {isAnalyzing
+                  ? 'Analyzing…'
+                  : analysis &&
+                    `${formatPlaybackTime(analysis.duration)} · ${
+                      analysis.bpm ? `${analysis.bpm} BPM` : 'BPM unknown'
+                    }`}
+              </div>
+            )}
+          </div>
+
+          {/* Error Display */}
+          {(error || shareError) && (
+            <div className="error-message">⚠️ {error || shareError?.message}</div>
+          )}
+          {!canShare && (
+            <div className="error-message">⚠️ You are not allowed to share files in this room</div>
+          )}
+          {sharerName && (
+            <div className="file-sharer-info">
+              🎬 {sharerName} is sharing a file
+              {state === 'waiting' && ', yours starts when they stop'}
+            </div>
+          )}
+          {isSharingOtherFile && (
+            <div className="file-sharer-info">🎬 You are already sharing another file</div>
+          )}
+
+          {/* Player (hidden) */}
+          {selectedFile && (
+            <VideoFilePlayer
+              file={selectedFile}
+              onVideoElementReady={setVideoElement}
+              onError={(err) => setError(err.message)}
+            />
+          )}
+
+          {selectedFile && mediaElement && (
+            <div className="controls-section">
+              <VideoFileControls videoElement={mediaElement} disabled={!isSharing} />
+
+              {/* A/B loop */}
+              <div className="controls-row audio-file-loop">
+                <button
+                  className="lk-button"
+                  onClick={() => setLoopStart(mediaElement.currentTime)}
+                  disabled={!isSharing}
+                >
+                  Set A
+                </button>
+                <button
+                  className="lk-button"
+                  onClick={() => setLoopEnd(mediaElement.currentTime)}
+                  disabled={!isSharing}
+                >
+                  Set B
+                </button>
+                <span className="time-display">
+                  {loopRegion.end !== undefined
+                    ? `Looping ${formatPlaybackTime(loopRegion.start ?? 0)} – ${formatPlaybackTime(
+                        loopRegion.end,
+                      )}`
+                    : loopRegion.start !== undefined
+                      ? `A at ${formatPlaybackTime(loopRegion.start)}`
+                      : 'No loop'}
+                </span>
+                <button
+                  className="lk-button"
+                  onClick={clearLoop}
+                  disabled={loopRegion.start === undefined && loopRegion.end === undefined}
+                >
+                  Clear
+                </button>
+              </div>
+
+              {/* Gain and fades */}
+              <div className="controls-row audio-file-gain">
+                <label htmlFor="audio-file-gain">Gain</label>
+                <input
+                  id="audio-file-gain"
+                  type="range"
+                  min="0"
+                  max="2"
+                  step="0.01"
+                  value={gain}
+                  onChange={(e) => setGain(parseFloat(e.target.value))}
+                  className="volume-slider"
+                />
+                <span className="time-display">{Math.round(gain * 100)}%</span>
+                <input
+                  type="number"
+                  min="0.1"
+                  max="30"
+                  step="0.1"
+                  value={fadeDuration}
+                  onChange={(e) => setFadeDuration(parseFloat(e.target.value) || 0)}
+                  className="audio-file-fade-duration"
+                  aria-label="Fade duration in seconds"
+                />
+                <button
+                  className="lk-button"
+                  onClick={() => fadeIn(fadeDuration)}
+                  disabled={!isSharing}
+                >
+                  Fade in
+                </button>
+                <button
+                  className="lk-button"
+                  onClick={() => fadeOut(fadeDuration)}
+                  disabled={!isSharing}
+                >
+                  Fade out
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Microphone mix */}
+          <label className="mix-microphone-option">
+            <input
+              type="checkbox"
+              checked={isSharing ? isMixingWithMicrophone : mixWithMicrophone}
+              onChange={(e) => setMixWithMicrophone(e.target.checked)}
+              disabled={isSharing}
+            />
+            Mix into my microphone and lower it while I talk
+          </label>
+
+          {/* Action Buttons */}
+          <div className="modal-actions">
+            {!isActive ? (
+              <button
+                className="lk-button lk-button-primary"
+                onClick={handleStartSharing}
+                disabled={!selectedFile || isLoading || !canShare || isSharingOtherFile}
+              >
+                {isLoading
+                  ? 'Starting...'
+                  : sharerName
+                    ? `Share after ${sharerName}`
+                    : 'Start Sharing'}
+              </button>
+            ) : (
+              <button
+                className="lk-button lk-button-danger"
+                onClick={stopSharing}
+                disabled={isLoading}
+              >
+                {state === 'waiting' ? 'Cancel' : isLoading ? 'Stopping...' : 'Stop Sharing'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import type { ChatAttachment } from '@livekit/components-core';
+import * as React from 'react';
+import { FileIcon } from '../assets/icons';
+
+export interface ChatAttachmentCardProps {
+  attachment: ChatAttachment;
+  /** Shows a cancel action while the attachment is transferring. */
+  onCancel?: (attachment: ChatAttachment) => void;
+}
+
+const sizeUnits = ['B', 'KB', 'MB', 'GB'];
+
+function formatFileSize(size: number) {
+  let unit = 0;
+  while (size >= 1024 && unit < sizeUnits.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${sizeUnits[unit]}`;
+}
+
+/** Creates an object URL for the file, which is revoked once the file changes or on unmount. */
+function useObjectUrl(file: File | undefined) {
+  const [objectUrl, setObjectUrl] = React.useState<string>();
+  React.useEffect(() => {
+    if (!file) {
+      setObjectUrl(undefined);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+  return objectUrl;
+}
+
+/**
+ * Shows an attached file as a card with its name, size and transfer progress, and a download
+ * link once it is complete.
+ * @internal
+ */
+export function ChatAttachmentCard({ attachment, onCancel }: ChatAttachmentCardProps) {
+  const objectUrl = useObjectUrl(attachment.file);
+  const isTransferring = attachment.state === 'transferring';
+  const isImage = attachment.mimeType.startsWith('image/');
+
+  return (
+    <span className="lk-chat-attachment" data-lk-state={attachment.state}>
+      {isImage && objectUrl ? (
+        <img className="lk-chat-attachment-preview" src={objectUrl} alt={attachment.name} />
+      ) : (
+        <FileIcon className="lk-chat-attachment-icon" />
+      )}
+      <span className="lk-chat-attachment-details">
+        <span className="lk-chat-attachment-name" title={attachment.name}>
+          {attachment.name}
+        </span>
+        <span className="lk-chat-attachment-status">
+          {attachment.size !== undefined && formatFileSize(attachment.size)}
+          {attachment.state === 'cancelled' && ' · cancelled'}
+          {attachment.state === 'failed' && ' · failed'}
+        </span>
+        {isTransferring && (
+          <progress
+            className="lk-chat-attachment-progress"
+            max={1}
+            value={attachment.progress}
+            aria-label={`Transfer of ${attachment.name}`}
+          />
+        )}
+      </span>
+      {isTransferring && onCancel && (
+        <button className="lk-edit-button" onClick={() => onCancel(attachment)}>
+          Cancel
+        </button>
+      )}
+      {objectUrl && (
+        <a className="lk-chat-attachment-download" href={objectUrl} download={attachment.name}>
+          Download
+        </a>
+      )}
+    </span>
+  );
+}
@@ -1,6 +1,13 @@
-import type { ReceivedChatMessage } from '@livekit/components-core';
-import { tokenize, createDefaultGrammar } from '@livekit/components-core';
+import type { ChatAttachment, ReceivedChatMessage } from '@livekit/components-core';
+import {
+  tokenize,
+  createDefaultGrammar,
+  createRichTextGrammar,
+  findChatSearchMatches,
+} from '@livekit/components-core';
 import * as React from 'react';
+import { useMaybeRoomContext } from '../context';
+import { ChatAttachmentCard } from './ChatAttachmentCard';
 
 /** @public */
 export type MessageFormatter = (message: string) => React.ReactNode;
@@ -19,6 +26,67 @@ export interface ChatEntryProps extends React.HTMLAttributes<HTMLLIElement> {
   hideTimestamp?: boolean;
   /** An optional formatter for the message body. */
   messageFormatter?: MessageFormatter;
+  /** Shows an edit action on own messages, called with the new text. */
+  onEdit?: (entry: ReceivedChatMessage, message: string) => void;
+  /** Shows a delete action on own messages. */
+  onDelete?: (entry: ReceivedChatMessage) => void;
+  /** Shows the reactions with an action to add one, called with the emoji to toggle. */
+  onReact?: (entry: ReceivedChatMessage, emoji: string) => void;
+  /**
+   * The emoji offered when reacting to a message.
+   * @defaultValue ['👍', '❤️', '😂', '🎉', '😮']
+   */
+  reactionEmojis?: string[];
+  /** The message this message replies to, shown as a quote above it. */
+  replyTo?: ReceivedChatMessage;
+  /** Shows a reply action. */
+  onReply?: (entry: ReceivedChatMessage) => void;
+  /** The number of replies in the thread started by this message. */
+  replyCount?: number;
+  /** Shows the number of replies as a link to the thread, if there are any. */
+  onShowThread?: (entry: ReceivedChatMessage) => void;
+  /** Identities of the participants that have seen the message, shown on own messages. */
+  seenBy?: string[];
+  /** Shows a cancel action on attachments that are still being sent or downloaded. */
+  onCancelAttachment?: (attachment: ChatAttachment) => void;
+  /** Search text to highlight within the message. */
+  highlight?: string;
+  /** Shows an action to mute or unmute the sender of remote messages in the chat. */
+  onToggleMute?: (entry: ReceivedChatMessage) => void;
+  /** Whether the sender is muted in the chat, which is shown by the mute action. */
+  isSenderMuted?: boolean;
+}
+
+const defaultReactionEmojis = ['👍', '❤️', '😂', '🎉', '😮'];
+
+/** Wraps the matches of the search text within the text of the node in `mark` elements. */
+function highlightMatches(node: React.ReactNode, searchText: string): React.ReactNode {
+  if (typeof node === 'string') {
+    const matches = findChatSearchMatches(node, searchText);
+    if (matches.length === 0) {
+      return node;
+    }
+    const parts: React.ReactNode[] = [];
+    let pos = 0;
+    matches.forEach(({ start, end }, i) => {
+      parts.push(
+        node.slice(pos, start),
+        <mark key={i} className="lk-chat-search-match">
+          {node.slice(start, end)}
+        </mark>,
+      );
+      pos = end;
+    });
+    parts.push(node.slice(pos));
+    return parts;
+  }
+  if (Array.isArray(node)) {
+    return node.map((child) => highlightMatches(child, searchText));
+  }
+  if (React.isValidElement<{ children?: React.ReactNode }>(node) && node.props.children) {
+    return React.cloneElement(node, undefined, highlightMatches(node.props.children, searchText));
+  }
+  return node;
 }
 
 /**
@@ -37,17 +105,78 @@ export const ChatEntry: (
   props: ChatEntryProps & React.RefAttributes<HTMLLIElement>,
 ) => React.ReactNode = /* @__PURE__ */ React.forwardRef<HTMLLIElement, ChatEntryProps>(
   function ChatEntry(
-    { entry, hideName = false, hideTimestamp = false, messageFormatter, ...props }: ChatEntryProps,
+    {
+      entry,
+      hideName = false,
+      hideTimestamp = false,
+      messageFormatter,
+      onEdit,
+      onDelete,
+      onReact,
+      reactionEmojis = defaultReactionEmojis,
+      replyTo,
+      onReply,
+      replyCount = 0,
+      onShowThread,
+      seenBy,
+      onCancelAttachment,
+      highlight,
+      onToggleMute,
+      isSenderMuted = false,
+      ...props
+    }: ChatEntryProps,
     ref,
   ) {
+    const room = useMaybeRoomContext();
+    const [isEditing, setIsEditing] = React.useState(false);
+    const [showReactionPicker, setShowReactionPicker] = React.useState(false);
     const formattedMessage = React.useMemo(() => {
-      return messageFormatter ? messageFormatter(entry.message) : entry.message;
-    }, [entry.message, messageFormatter]);
+      const formatted = messageFormatter ? messageFormatter(entry.message) : entry.message;
+      return highlight ? highlightMatches(formatted, highlight) : formatted;
+    }, [entry.message, messageFormatter, highlight]);
     const hasBeenEdited = !!entry.editTimestamp;
     const time = new Date(entry.timestamp);
     const locale = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
 
     const name = entry.from?.name ?? entry.from?.identity;
+    const canModify = !!entry.from?.isLocal && (!!onEdit || !!onDelete);
+    const canMute = !!onToggleMute && !!entry.from && !entry.from.isLocal;
+    const reactions = Object.entries(entry.reactions ?? {});
+    const attachments = React.useMemo<ChatAttachment[]>(
+      () =>
+        entry.attachments ??
+        // Files of the legacy protocol have no stream id, names may repeat within a message
+        entry.attachedFiles?.map((file, idx) => ({
+          id: `${entry.id}-file-${idx}`,
+          name: file.name,
+          mimeType: file.type,
+          size: file.size,
+          progress: 1,
+          state: 'complete',
+          file,
+        })) ??
+        [],
+      [entry.attachments, entry.attachedFiles, entry.id],
+    );
+    const localIdentity = room?.localParticipant.identity;
+    const getParticipantName = (identity: string) =>
+      (identity === localIdentity
+        ? room?.localParticipant.name
+        : room?.getParticipantByIdentity(identity)?.name) || identity;
+
+    function handleReact(emoji: string) {
+      setShowReactionPicker(false);
+      onReact?.(entry, emoji);
+    }
+
+    function handleEditSubmit(event: React.FormEvent<HTMLFormElement>) {
+      event.preventDefault();
+      const message = new FormData(event.currentTarget).get('message')?.toString().trim();
+      if (message && message !== entry.message) {
+        onEdit?.(entry, message);
+      }
+      setIsEditing(false);
+    }
 
     return (
       <li
@@ -55,11 +184,19 @@ export const ChatEntry: (
         className="lk-chat-entry"
         title={time.toLocaleTimeString(locale, { timeStyle: 'full' })}
         data-lk-message-origin={entry.from?.isLocal ? 'local' : 'remote'}
+        data-lk-private={!!entry.isPrivate}
         {...props}
       >
-        {(!hideTimestamp || !hideName || hasBeenEdited) && (
+        {(!hideTimestamp || !hideName || hasBeenEdited || entry.isPrivate) && (
           <span className="lk-meta-data">
             {!hideName && <strong className="lk-participant-name">{name}</strong>}
+            {entry.isPrivate && (
+              <span className="lk-chat-entry-private">
+                {entry.from?.isLocal
+                  ? `privately to ${entry.recipientIdentities?.map(getParticipantName).join(', ')}`
+                  : 'privately'}
+              </span>
+            )}
 
             {(!hideTimestamp || hasBeenEdited) && (
               <span className="lk-timestamp">
@@ -70,43 +207,190 @@ export const ChatEntry: (
           </span>
         )}
 
-        <span className="lk-message-body">{formattedMessage}</span>
-        <span className="lk-message-attachements">
-          {entry.attachedFiles?.map(
-            (file) =>
-              file.type.startsWith('image/') && (
-                <img
-                  style={{ maxWidth: '300px', maxHeight: '300px' }}
-                  key={file.name}
-                  src={URL.createObjectURL(file)}
-                  alt={file.name}
-                />
-              ),
-          )}
-        </span>
+        {replyTo && (
+          <blockquote className="lk-chat-entry-reply-preview">
+            <strong>{replyTo.from?.name || replyTo.from?.identity}</strong> {replyTo.message}
+          </blockquote>
+        )}
+        {isEditing ? (
+          <form className="lk-chat-entry-edit-form" onSubmit={handleEditSubmit}>
+            <input
+              className="lk-form-control"
+              name="message"
+              defaultValue={entry.message}
+              aria-label="Edit message"
+              autoFocus
+              onKeyDown={(ev) => {
+                ev.stopPropagation();
+                if (ev.key === 'Escape') {
+                  setIsEditing(false);
+                }
+              }}
+              onKeyUp={(ev) => ev.stopPropagation()}
+            />
+          </form>
+        ) : (
+          <span className="lk-message-body">{formattedMessage}</span>
+        )}
+        {(canModify || canMute || onReact || onReply) && !isEditing && (
+          <span className="lk-chat-entry-actions">
+            {onReply && (
+              <button className="lk-edit-button" onClick={() => onReply(entry)}>
+                Reply
+              </button>
+            )}
+            {onReact && (
+              <button
+                className="lk-edit-button"
+                aria-expanded={showReactionPicker}
+                onClick={() => setShowReactionPicker((show) => !show)}
+              >
+                React
+              </button>
+            )}
+            {canModify && onEdit && (
+              <button className="lk-edit-button" onClick={() => setIsEditing(true)}>
+                Edit
+              </button>
+            )}
+            {canModify && onDelete && (
+              <button className="lk-edit-button" onClick={() => onDelete(entry)}>
+                Delete
+              </button>
+            )}
+            {canMute && (
+              <button className="lk-edit-button" onClick={() => onToggleMute(entry)}>
+                {isSenderMuted ? 'Unmute' : 'Mute'}
+              </button>
+            )}
+          </span>
+        )}
+        {showReactionPicker && (
+          <span className="lk-chat-reaction-picker" role="group" aria-label="Reactions">
+            {reactionEmojis.map((emoji) => (
+              <button key={emoji} className="lk-chat-reaction" onClick={() => handleReact(emoji)}>
+                {emoji}
+              </button>
+            ))}
+          </span>
+        )}
+        {reactions.length > 0 && (
+          <span className="lk-chat-entry-reactions">
+            {reactions.map(([emoji, identities]) => (
+              <button
+                key={emoji}
+                className="lk-chat-reaction"
+                title={identities.map(getParticipantName).join(', ')}
+                data-lk-reacted={!!localIdentity && identities.includes(localIdentity)}
+                disabled={!onReact}
+                onClick={() => handleReact(emoji)}
+              >
+                {emoji} {identities.length}
+              </button>
+            ))}
+          </span>
+        )}
+        {attachments.length > 0 && (
+          <span className="lk-message-attachements">
+            {attachments.map((attachment) => (
+              <ChatAttachmentCard
+                key={attachment.id}
+                attachment={attachment}
+                onCancel={onCancelAttachment}
+              />
+            ))}
+          </span>
+        )}
+        {entry.from?.isLocal && seenBy && seenBy.length > 0 && (
+          <span className="lk-chat-entry-seen-by">
+            Seen by {seenBy.map(getParticipantName).join(', ')}
+          </span>
+        )}
+        {onShowThread && replyCount > 0 && (
+          <button className="lk-chat-thread-link" onClick={() => onShowThread(entry)}>
+            {replyCount === 1 ? '1 reply' : `${replyCount} replies`}
+          </button>
+        )}
       </li>
     );
   },
 );
 
+function renderChatLink(type: 'url' | 'email', content: string, key: number) {
+  const href =
+    type === `url`
+      ? /^http(s?):\/\//.test(content)
+        ? content
+        : `https://${content}`
+      : `mailto:${content}`;
+  return (
+    <a className="lk-chat-link" key={key} href={href} target="_blank" rel="noreferrer">
+      {content}
+    </a>
+  );
+}
+
 /** @public */
 export function formatChatMessageLinks(message: string): React.ReactNode {
-  return tokenize(message, createDefaultGrammar()).map((tok, i) => {
+  return tokenize(message, createDefaultGrammar()).map((tok, i) =>
+    typeof tok === `string` ? tok : renderChatLink(tok.type, tok.content.toString(), i),
+  );
+}
+
+/** @public */
+export interface ChatMentionProps {
+  /** The identity of the mentioned participant. */
+  identity: string;
+}
+
+/**
+ * Shows an `@identity` mention with the name of the participant, if they are in the room.
+ * @public
+ */
+export function ChatMention({ identity }: ChatMentionProps) {
+  const room = useMaybeRoomContext();
+  const participant =
+    room?.localParticipant.identity === identity
+      ? room.localParticipant
+      : room?.getParticipantByIdentity(identity);
+  return (
+    <span className="lk-chat-mention" title={identity} data-lk-local={!!participant?.isLocal}>
+      @{participant?.name || identity}
+    </span>
+  );
+}
+
+/**
+ * Formats links, inline code, code blocks, bold and italic text and `@identity` mentions.
+ * @public
+ */
+export function formatChatMessage(message: string): React.ReactNode {
+  return tokenize(message, createRichTextGrammar()).map((tok, i) => {
     if (typeof tok === `string`) {
       return tok;
-    } else {
-      const content = tok.content.toString();
-      const href =
-        tok.type === `url`
-          ? /^http(s?):\/\//.test(content)
-            ? content
-            : `https://${content}`
-          : `mailto:${content}`;
-      return (
-        <a className="lk-chat-link" key={i} href={href} target="_blank" rel="noreferrer">
-          {content}
-        </a>
-      );
+    }
+    const content = tok.content.toString();
+    switch (tok.type) {
+      case `codeBlock`:
+        return (
+          <pre key={i} className="lk-chat-code-block">
+            <code>{content.slice(3, -3).replace(/^\n|\n$/g, '')}</code>
+          </pre>
+        );
+      case `code`:
+        return (
+          <code key={i} className="lk-chat-code">
+            {content.slice(1, -1)}
+          </code>
+        );
+      case `bold`:
+        return <strong key={i}>{formatChatMessage(content.slice(2, -2))}</strong>;
+      case `italic`:
+        return <em key={i}>{formatChatMessage(content.slice(1, -1))}</em>;
+      case `mention`:
+        return <ChatMention key={i} identity={content.slice(1)} />;
+      default:
+        return renderChatLink(tok.type, content, i);
     }
   });
 }
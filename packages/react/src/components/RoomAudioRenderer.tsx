@@ -22,7 +22,7 @@ export interface RoomAudioRendererProps {
 
 /**
  * The `RoomAudioRenderer` component is a drop-in solution for adding audio to your LiveKit app.
- * It takes care of handling remote participants’ audio tracks and makes sure that microphones and screen share are audible.
+ * It takes care of handling remote participants’ audio tracks and makes sure that microphones, screen shares and shared media files are audible.
  *
  * @example
  * ```tsx
@@ -0,0 +1,81 @@
+import * as React from 'react';
+import type { PlaybackCommand, ReceivedPlaybackState } from '@livekit/components-core';
+import { getPlaybackPosition } from '@livekit/components-core';
+import { formatPlaybackTime, PLAYBACK_RATES } from './VideoFileControls';
+
+export interface SharedPlaybackControlsProps {
+  playbackState: ReceivedPlaybackState;
+  /** If provided, the controls are enabled and emit commands for the sharer's player. */
+  onCommand?: (command: PlaybackCommand) => void;
+}
+
+/**
+ * Shows the playback state of a file shared by a remote participant.
+ * The controls are read-only unless the local participant is the co-host.
+ */
+export function SharedPlaybackControls({ playbackState, onCommand }: SharedPlaybackControlsProps) {
+  const [position, setPosition] = React.useState(() => getPlaybackPosition(playbackState));
+  const readOnly = !onCommand;
+
+  // Extrapolate the position between two state updates
+  React.useEffect(() => {
+    setPosition(getPlaybackPosition(playbackState));
+    if (playbackState.paused) {
+      return;
+    }
+    const interval = setInterval(() => setPosition(getPlaybackPosition(playbackState)), 250);
+    return () => clearInterval(interval);
+  }, [playbackState]);
+
+  const sharerName = playbackState.from.name || playbackState.from.identity;
+
+  return (
+    <div className="video-file-controls" data-lk-read-only={readOnly}>
+      <div className="shared-playback-sharer">
+        {readOnly
+          ? `Watching along with ${sharerName}`
+          : `You are co-hosting ${sharerName}'s video`}
+      </div>
+      <div className="controls-row">
+        <button
+          className="lk-button"
+          onClick={() => onCommand?.({ action: playbackState.paused ? 'play' : 'pause' })}
+          disabled={readOnly}
+          aria-label={playbackState.paused ? 'Play' : 'Pause'}
+        >
+          {playbackState.paused ? '▶' : '⏸'}
+        </button>
+
+        <div className="timeline-container">
+          <input
+            type="range"
+            min="0"
+            max={playbackState.duration || 0}
+            value={position}
+            onChange={(e) => onCommand?.({ action: 'seek', position: parseFloat(e.target.value) })}
+            disabled={readOnly}
+            className="timeline-slider"
+          />
+          <div className="time-display">
+            {formatPlaybackTime(position)} / {formatPlaybackTime(playbackState.duration)}
+          </div>
+        </div>
+
+        <div className="playback-rate-container">
+          <select
+            value={playbackState.rate}
+            onChange={(e) => onCommand?.({ action: 'rate', rate: parseFloat(e.target.value) })}
+            disabled={readOnly}
+            className="playback-rate-select"
+          >
+            {PLAYBACK_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}x
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,28 @@
 import * as React from 'react';
+import type { ClipRange } from '../hooks/useClipRange';
 
 export interface VideoFileControlsProps {
   videoElement: HTMLVideoElement | null;
   disabled?: boolean;
+  /** Highlights the part of the timeline that is shared. */
+  clipRange?: ClipRange;
 }
 
-export function VideoFileControls({ videoElement, disabled = false }: VideoFileControlsProps) {
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/** Formats a playback position in seconds as `mm:ss`. */
+export function formatPlaybackTime(seconds: number): string {
+  if (!isFinite(seconds)) return '00:00';
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+export function VideoFileControls({
+  videoElement,
+  disabled = false,
+  clipRange,
+}: VideoFileControlsProps) {
   const [isPlaying, setIsPlaying] = React.useState(false);
   const [currentTime, setCurrentTime] = React.useState(0);
   const [duration, setDuration] = React.useState(0);
@@ -59,7 +76,7 @@ export function VideoFileControls({ videoElement, disabled = false }: VideoFileC
       videoElement.currentTime = time;
       setCurrentTime(time);
     },
-    [videoElement, disabled]
+    [videoElement, disabled],
   );
 
   const handleVolumeChange = React.useCallback(
@@ -69,7 +86,7 @@ export function VideoFileControls({ videoElement, disabled = false }: VideoFileC
       videoElement.volume = vol;
       setVolume(vol);
     },
-    [videoElement, disabled]
+    [videoElement, disabled],
   );
 
   const handlePlaybackRateChange = React.useCallback(
@@ -78,16 +95,9 @@ export function VideoFileControls({ videoElement, disabled = false }: VideoFileC
       videoElement.playbackRate = rate;
       setPlaybackRate(rate);
     },
-    [videoElement, disabled]
+    [videoElement, disabled],
   );
 
-  const formatTime = (seconds: number): string => {
-    if (!isFinite(seconds)) return '00:00';
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
-
   return (
     <div className="video-file-controls">
       <div className="controls-row">
@@ -101,6 +111,15 @@ export function VideoFileControls({ videoElement, disabled = false }: VideoFileC
         </button>
 
         <div className="timeline-container">
+          {clipRange && duration > 0 && (
+            <div
+              className="timeline-clip"
+              style={{
+                left: `${(clipRange.start / duration) * 100}%`,
+                width: `${(((clipRange.end ?? duration) - clipRange.start) / duration) * 100}%`,
+              }}
+            />
+          )}
           <input
             type="range"
             min="0"
@@ -111,7 +130,7 @@ export function VideoFileControls({ videoElement, disabled = false }: VideoFileC
             className="timeline-slider"
           />
           <div className="time-display">
-            {formatTime(currentTime)} / {formatTime(duration)}
+            {formatPlaybackTime(currentTime)} / {formatPlaybackTime(duration)}
           </div>
         </div>
 
@@ -136,15 +155,14 @@ export function VideoFileControls({ videoElement, disabled = false }: VideoFileC
             disabled={disabled || !videoElement}
             className="playback-rate-select"
           >
-            <option value="0.5">0.5x</option>
-            <option value="0.75">0.75x</option>
-            <option value="1">1x</option>
-            <option value="1.25">1.25x</option>
-            <option value="1.5">1.5x</option>
-            <option value="2">2x</option>
+            {PLAYBACK_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}x
+              </option>
+            ))}
           </select>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
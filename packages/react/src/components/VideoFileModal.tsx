@@ -1,48 +1,142 @@
 import * as React from 'react';
+import type { MediaFileSharePolicy, SubtitleCue } from '@livekit/components-core';
+import { log, parseSubtitles, supportsMediaElementCapture } from '@livekit/components-core';
 import { VideoFilePlayer } from './VideoFilePlayer';
-import { VideoFileControls } from './VideoFileControls';
-import { useVideoFileShare } from '../hooks/useVideoFileShare';
+import { VideoFileControls, formatPlaybackTime } from './VideoFileControls';
+import { SharedPlaybackControls } from './SharedPlaybackControls';
+import type { VideoFileSharePreset } from '../hooks/useVideoFileShare';
+import { useVideoFileShare, VIDEO_FILE_SHARE_PRESETS } from '../hooks/useVideoFileShare';
+import { useVideoFileQueue } from '../hooks/useVideoFileQueue';
+import type { ClipEndBehavior } from '../hooks/useClipRange';
+import { useClipPlayback, useClipRange } from '../hooks/useClipRange';
+import { useSharedPlayback } from '../hooks/useSharedPlayback';
+import { useRemoteParticipants } from '../hooks/useRemoteParticipants';
 
 export interface VideoFileModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Restricts file sharing to participants with a certain attribute, e.g. hosts. */
+  policy?: MediaFileSharePolicy;
 }
 
-export function VideoFileModal({ isOpen, onClose }: VideoFileModalProps) {
-  const [selectedFile, setSelectedFile] = React.useState<File | null>(null);
+export function VideoFileModal({ isOpen, onClose, policy }: VideoFileModalProps) {
+  const queue = useVideoFileQueue();
+  const selectedFile = queue.currentFile;
   const [error, setError] = React.useState<string | null>(null);
+  const [mixWithMicrophone, setMixWithMicrophone] = React.useState(false);
+  const [preset, setPreset] = React.useState<VideoFileSharePreset>('motion');
+  const [subtitles, setSubtitles] = React.useState<{ name: string; cues: SubtitleCue[] } | null>(
+    null,
+  );
+  const { clipRange, isClipped, setClipStart, setClipEnd, clearClip } = useClipRange();
+  const [clipBehavior, setClipBehavior] = React.useState<ClipEndBehavior>('stop');
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const subtitleInputRef = React.useRef<HTMLInputElement>(null);
 
   const {
     videoElement,
+    state,
     isSharing,
     isLoading,
     error: shareError,
+    coHostIdentity,
     setVideoElement,
+    setCoHostIdentity,
+    isMixingWithMicrophone,
+    captureMethod,
+    canShare,
+    activeSharer,
     startSharing,
     stopSharing,
+    prepareSourceChange,
   } = useVideoFileShare({
     onError: (err) => setError(err.message),
     onTrackPublished: () => setError(null),
+    mixWithMicrophone,
+    policy,
+    whenBusy: 'queue',
+    fileName: selectedFile?.name,
+    clip: isClipped ? clipRange : undefined,
+    preset,
+    subtitles: subtitles?.cues,
   });
+  const { playbackState: remotePlaybackState, isCoHost, sendCommand } = useSharedPlayback();
+  const remoteParticipants = useRemoteParticipants();
+  const canCapture = React.useMemo(() => supportsMediaElementCapture(), []);
 
   const handleFileSelect = React.useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (!file) return;
+      const files = Array.from(e.target.files ?? []);
+      // Allow selecting the same files again
+      e.target.value = '';
+      if (files.length === 0) return;
 
-      // Validate file type
-      if (!file.type.startsWith('video/')) {
-        setError('Please select a valid video file');
-        return;
+      // Validate file types
+      const videoFiles = files.filter((file) => file.type.startsWith('video/'));
+      if (videoFiles.length < files.length) {
+        setError(
+          videoFiles.length === 0
+            ? 'Please select a valid video file'
+            : `Skipped ${files.length - videoFiles.length} file(s) that are not videos`,
+        );
+      } else {
+        setError(null);
       }
 
-      setSelectedFile(file);
-      setError(null);
+      queue.addFiles(videoFiles);
     },
-    []
+    [queue.addFiles],
   );
 
+  const handleSubtitleSelect = React.useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let cues: SubtitleCue[];
+    try {
+      cues = parseSubtitles(await file.text());
+    } catch (err) {
+      log.warn('could not read subtitle file', err);
+      setError('The subtitle file could not be read');
+      return;
+    }
+    if (cues.length === 0) {
+      setError('The subtitle file contains no cues');
+      return;
+    }
+    setError(null);
+    setSubtitles({ name: file.name, cues });
+  }, []);
+
+  // Subtitles and the clip belong to a single file
+  React.useEffect(() => {
+    setSubtitles(null);
+    clearClip();
+  }, [selectedFile, clearClip]);
+
+  const handleSelectQueueItem = React.useCallback(
+    async (index: number) => {
+      if (index === queue.currentIndex) return;
+      // Keep the published tracks alive while the player switches files
+      await prepareSourceChange();
+      queue.selectFile(index);
+    },
+    [queue.currentIndex, queue.selectFile, prepareSourceChange],
+  );
+
+  const handleEnded = React.useCallback(async () => {
+    if (!queue.hasNext) return;
+    await prepareSourceChange();
+    queue.next();
+  }, [queue.hasNext, queue.next, prepareSourceChange]);
+
+  const { preview } = useClipPlayback(videoElement, clipRange, {
+    behavior: clipBehavior,
+    // Previewing the clip must not advance the queue
+    onEnded: isSharing ? handleEnded : undefined,
+  });
+
   const handleStartSharing = React.useCallback(async () => {
     if (!selectedFile) {
       setError('Please select a video file first');
@@ -52,19 +146,24 @@ export function VideoFileModal({ isOpen, onClose }: VideoFileModalProps) {
   }, [selectedFile, startSharing]);
 
   const handleStopSharing = React.useCallback(async () => {
-    console.log('stop sharing 3');
     await stopSharing();
   }, [stopSharing]);
 
+  // Someone else's share blocks starting a new one, so it is queued behind it
+  const sharerName =
+    activeSharer && !activeSharer.isLocal && (activeSharer.name || activeSharer.identity);
+  // Only one file can be shared at a time, the other share has to be stopped first
+  const isSharingOtherFile = !!activeSharer?.isLocal;
+  const isActive = state === 'waiting' || state === 'sharing' || state === 'stopping';
+
   const handleClose = React.useCallback(() => {
-    if (isSharing) {
-      console.log('stop sharing 4');
+    if (isActive) {
       stopSharing();
     }
-    setSelectedFile(null);
+    queue.clear();
     setError(null);
     onClose();
-  }, [isSharing, stopSharing, onClose]);
+  }, [isActive, stopSharing, queue.clear, onClose]);
 
   if (!isOpen) return null;
 
@@ -85,30 +184,115 @@ export function VideoFileModal({ isOpen, onClose }: VideoFileModalProps) {
               ref={fileInputRef}
               type="file"
               accept="video/*"
+              multiple
               onChange={handleFileSelect}
               style={{ display: 'none' }}
             />
-            <button
-              className="lk-button"
-              onClick={() => fileInputRef.current?.click()}
-              disabled={isSharing}
-            >
-              Choose Video File
+            <button className="lk-button" onClick={() => fileInputRef.current?.click()}>
+              {queue.files.length === 0 ? 'Choose Video Files' : 'Add Video Files'}
             </button>
-            {selectedFile && (
-              <div className="selected-file-info">
-                <span>📹 {selectedFile.name}</span>
-                <span className="file-size">
-                  ({(selectedFile.size / (1024 * 1024)).toFixed(2)} MB)
-                </span>
-              </div>
+            {queue.files.length > 0 && (
+              <ol className="video-file-queue">
+                {queue.files.map((file, index) => (
+                  <li
+                    key={`${file.name}_${file.lastModified}_${index}`}
+                    className="selected-file-info"
+                    data-lk-current={index === queue.currentIndex}
+                  >
+                    <button
+                      className="queue-item-name"
+                      onClick={() => handleSelectQueueItem(index)}
+                      disabled={isLoading}
+                    >
+                      {index === queue.currentIndex ? '▶' : '📹'} {file.name}
+                    </button>
+                    <span className="file-size">({(file.size / (1024 * 1024)).toFixed(2)} MB)</span>
+                    <span className="queue-item-actions">
+                      <button
+                        className="lk-button"
+                        onClick={() => queue.moveFile(index, index - 1)}
+                        disabled={index === 0}
+                        aria-label="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        className="lk-button"
+                        onClick={() => queue.moveFile(index, index + 1)}
+                        disabled={index === queue.files.length - 1}
+                        aria-label="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        className="lk-button"
+                        onClick={() => queue.removeFile(index)}
+                        disabled={isSharing && index === queue.currentIndex}
+                        aria-label="Remove from queue"
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
             )}
           </div>
 
+          {/* Subtitles */}
+          {selectedFile && (
+            <div className="subtitle-section">
+              <input
+                ref={subtitleInputRef}
+                type="file"
+                accept=".srt,.vtt,text/vtt"
+                onChange={handleSubtitleSelect}
+                style={{ display: 'none' }}
+              />
+              <button className="lk-button" onClick={() => subtitleInputRef.current?.click()}>
+                {subtitles ? 'Change Subtitles' : 'Attach Subtitles'}
+              </button>
+              {subtitles && (
+                <>
+                  <span className="subtitle-info">
+                    {subtitles.name} ({subtitles.cues.length} cues)
+                  </span>
+                  <button
+                    className="lk-button"
+                    onClick={() => setSubtitles(null)}
+                    aria-label="Remove subtitles"
+                  >
+                    ✕
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Error Display */}
           {(error || shareError) && (
-            <div className="error-message">
-              ⚠️ {error || shareError?.message}
+            <div className="error-message">⚠️ {error || shareError?.message}</div>
+          )}
+          {!canShare && (
+            <div className="error-message">⚠️ You are not allowed to share files in this room</div>
+          )}
+          {sharerName && (
+            <div className="file-sharer-info">
+              🎬 {sharerName} is sharing a file
+              {state === 'waiting' && ', yours starts when they stop'}
+            </div>
+          )}
+          {isSharingOtherFile && (
+            <div className="file-sharer-info">🎬 You are already sharing another file</div>
+          )}
+          {!canCapture && (
+            <div className="error-message">⚠️ This browser cannot share video files</div>
+          )}
+          {isSharing && captureMethod && captureMethod !== 'captureStream' && (
+            <div className="capture-method-info">
+              {captureMethod === 'canvas'
+                ? 'Your browser cannot capture videos directly, frames are copied instead'
+                : 'Sharing with mozCaptureStream'}
             </div>
           )}
 
@@ -118,25 +302,138 @@ export function VideoFileModal({ isOpen, onClose }: VideoFileModalProps) {
               file={selectedFile}
               onVideoElementReady={setVideoElement}
               onError={(err) => setError(err.message)}
+              onEnded={handleEnded}
+              autoPlay={isSharing}
+              preview={!isActive}
             />
           )}
 
           {/* Controls */}
           {selectedFile && videoElement && (
             <div className="controls-section">
-              <VideoFileControls videoElement={videoElement} disabled={!isSharing} />
+              <VideoFileControls
+                videoElement={videoElement}
+                disabled={isLoading}
+                clipRange={isClipped ? clipRange : undefined}
+              />
+            </div>
+          )}
+
+          {/* Clip */}
+          {selectedFile && videoElement && (
+            <div className="clip-section">
+              <button className="lk-button" onClick={() => setClipStart(videoElement.currentTime)}>
+                Set in
+              </button>
+              <button className="lk-button" onClick={() => setClipEnd(videoElement.currentTime)}>
+                Set out
+              </button>
+              <span className="clip-info">
+                {formatPlaybackTime(clipRange.start)} –{' '}
+                {clipRange.end !== undefined ? formatPlaybackTime(clipRange.end) : 'end'}
+              </span>
+              <select
+                className="clip-behavior-select"
+                value={clipBehavior}
+                onChange={(e) => setClipBehavior(e.target.value as ClipEndBehavior)}
+                aria-label="At the out point"
+              >
+                <option value="stop">Stop at out point</option>
+                <option value="loop">Loop</option>
+              </select>
+              <button
+                className="lk-button"
+                onClick={() => preview().catch((err) => setError(err.message))}
+                disabled={isSharing || !isClipped}
+              >
+                Preview
+              </button>
+              {isClipped && (
+                <button className="lk-button" onClick={clearClip} aria-label="Clear clip">
+                  ✕
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Co-host delegation */}
+          {isSharing && (
+            <div className="co-host-section">
+              <label htmlFor="video-file-co-host">Co-host</label>
+              <select
+                id="video-file-co-host"
+                className="co-host-select"
+                value={coHostIdentity ?? ''}
+                onChange={(e) => setCoHostIdentity(e.target.value || undefined)}
+              >
+                <option value="">Nobody</option>
+                {remoteParticipants.map((participant) => (
+                  <option key={participant.identity} value={participant.identity}>
+                    {participant.name || participant.identity}
+                  </option>
+                ))}
+              </select>
             </div>
           )}
 
+          {/* Playback of a file shared by someone else */}
+          {!isSharing && remotePlaybackState && (
+            <div className="controls-section">
+              <SharedPlaybackControls
+                playbackState={remotePlaybackState}
+                onCommand={
+                  isCoHost
+                    ? (command) => sendCommand(command).catch((err) => setError(err.message))
+                    : undefined
+                }
+              />
+            </div>
+          )}
+
+          {/* Quality preset */}
+          <div className="preset-section">
+            <label htmlFor="video-file-preset">Quality</label>
+            <select
+              id="video-file-preset"
+              className="preset-select"
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as VideoFileSharePreset)}
+              disabled={isSharing}
+            >
+              {Object.entries(VIDEO_FILE_SHARE_PRESETS).map(([key, { label }]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Microphone mix */}
+          <label className="mix-microphone-option">
+            <input
+              type="checkbox"
+              checked={isSharing ? isMixingWithMicrophone : mixWithMicrophone}
+              onChange={(e) => setMixWithMicrophone(e.target.checked)}
+              disabled={isSharing}
+            />
+            Mix into my microphone and lower it while I talk
+          </label>
+
           {/* Action Buttons */}
           <div className="modal-actions">
-            {!isSharing ? (
+            {!isActive ? (
               <button
                 className="lk-button lk-button-primary"
                 onClick={handleStartSharing}
-                disabled={!selectedFile || isLoading}
+                disabled={
+                  !selectedFile || isLoading || !canCapture || !canShare || isSharingOtherFile
+                }
               >
-                {isLoading ? 'Starting...' : 'Start Sharing'}
+                {isLoading
+                  ? 'Starting...'
+                  : sharerName
+                    ? `Share after ${sharerName}`
+                    : 'Start Sharing'}
               </button>
             ) : (
               <button
@@ -144,7 +441,7 @@ export function VideoFileModal({ isOpen, onClose }: VideoFileModalProps) {
                 onClick={handleStopSharing}
                 disabled={isLoading}
               >
-                {isLoading ? 'Stopping...' : 'Stop Sharing'}
+                {state === 'waiting' ? 'Cancel' : isLoading ? 'Stopping...' : 'Stop Sharing'}
               </button>
             )}
           </div>
@@ -152,4 +449,4 @@ export function VideoFileModal({ isOpen, onClose }: VideoFileModalProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -6,16 +6,34 @@ export interface VideoFilePlayerProps {
   onError?: (error: Error) => void;
   onEnded?: () => void;
   onLoadedMetadata?: (duration: number) => void;
+  /** Start playback as soon as a newly loaded file is ready, e.g. when advancing a queue. */
+  autoPlay?: boolean;
+  /** Show the player, e.g. to preview a clip before sharing it. */
+  preview?: boolean;
 }
 
+const hiddenStyle: React.CSSProperties = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  opacity: 0,
+  pointerEvents: 'none',
+  left: '-9999px',
+};
+
 export function VideoFilePlayer({
   file,
   onVideoElementReady,
   onError,
   onEnded,
   onLoadedMetadata,
+  autoPlay = false,
+  preview = false,
 }: VideoFilePlayerProps) {
   const videoRef = React.useRef<HTMLVideoElement>(null);
+  // Read through a ref so toggling auto play doesn't reload the file
+  const autoPlayRef = React.useRef(autoPlay);
+  autoPlayRef.current = autoPlay;
 
   // Notify parent when video element is ready
   React.useEffect(() => {
@@ -33,11 +51,19 @@ export function VideoFilePlayer({
     const video = videoRef.current;
     const objectUrl = URL.createObjectURL(file);
 
+    const handleLoadedData = () => {
+      if (autoPlayRef.current) {
+        video.play().catch((err) => onError?.(err instanceof Error ? err : new Error(err)));
+      }
+    };
+    video.addEventListener('loadeddata', handleLoadedData);
+
     video.src = objectUrl;
     video.load();
 
     // Cleanup
     return () => {
+      video.removeEventListener('loadeddata', handleLoadedData);
       URL.revokeObjectURL(objectUrl);
       video.src = '';
     };
@@ -80,14 +106,8 @@ export function VideoFilePlayer({
   return (
     <video
       ref={videoRef}
-      style={{
-        position: 'absolute',
-        width: '1px',
-        height: '1px',
-        opacity: 0,
-        pointerEvents: 'none',
-        left: '-9999px'
-      }}
+      className={preview ? 'video-file-preview' : undefined}
+      style={preview ? undefined : hiddenStyle}
       playsInline
       muted={false}
       controls={false}
@@ -96,4 +116,4 @@ export function VideoFilePlayer({
       onLoadedMetadata={handleLoadedMetadata}
     />
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,23 @@
+import * as React from 'react';
+import { useVideoFileShareToggle } from '../../hooks/useVideoFileShareToggle';
+
+export interface AudioFileShareToggleProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+  isSharing?: boolean;
+}
+
+export const AudioFileShareToggle = React.forwardRef<HTMLButtonElement, AudioFileShareToggleProps>(
+  function AudioFileShareToggle({ isSharing = false, ...props }, ref) {
+    const { mergedProps } = useVideoFileShareToggle({ props, kind: 'audio' });
+
+    return (
+      <button
+        ref={ref}
+        {...mergedProps}
+        className={`lk-button ${isSharing ? 'lk-button-active' : ''}`}
+        aria-label="Share audio file"
+      >
+        {props.children}
+      </button>
+    );
+  },
+);
@@ -28,7 +28,10 @@ export { ConnectionStateToast, type ConnectionStateToastProps } from './Connecti
 export {
   type MessageFormatter,
   type ChatEntryProps,
+  type ChatMentionProps,
   ChatEntry,
+  ChatMention,
+  formatChatMessage,
   formatChatMessageLinks,
 } from './ChatEntry';
 export * from './SessionProvider';
@@ -2,7 +2,11 @@ import * as React from 'react';
 import type { Participant } from 'livekit-client';
 import { Track } from 'livekit-client';
 import type { ParticipantClickEvent, TrackReferenceOrPlaceholder } from '@livekit/components-core';
-import { isTrackReference, isTrackReferencePinned } from '@livekit/components-core';
+import {
+  isMediaFileShareTrack,
+  isTrackReference,
+  isTrackReferencePinned,
+} from '@livekit/components-core';
 import { ConnectionQualityIndicator } from './ConnectionQualityIndicator';
 import { ParticipantName } from './ParticipantName';
 import { TrackMutedIndicator } from './TrackMutedIndicator';
@@ -20,6 +24,8 @@ import { ParticipantPlaceholder } from '../../assets/images';
 import { LockLockedIcon, ScreenShareIcon } from '../../assets/icons';
 import { VideoTrack } from './VideoTrack';
 import { AudioTrack } from './AudioTrack';
+import { SharedMediaCaptions } from './SharedMediaCaptions';
+import { SharedMediaOverlay } from './SharedMediaOverlay';
 import { useParticipantTile } from '../../hooks';
 import { useIsEncrypted } from '../../hooks/useIsEncrypted';
 
@@ -155,6 +161,15 @@ export const ParticipantTile: (
                     />
                   )
                 )}
+                {isMediaFileShareTrack(trackReference) &&
+                  trackReference.source === Track.Source.ScreenShare &&
+                  !trackReference.participant.isLocal && (
+                    <SharedMediaCaptions participant={trackReference.participant} />
+                  )}
+                {isMediaFileShareTrack(trackReference) &&
+                  trackReference.source === Track.Source.ScreenShare && (
+                    <SharedMediaOverlay participant={trackReference.participant} />
+                  )}
                 <div className="lk-participant-placeholder">
                   <ParticipantPlaceholder />
                 </div>
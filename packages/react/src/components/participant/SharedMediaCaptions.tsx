@@ -0,0 +1,32 @@
+import * as React from 'react';
+import type { Participant } from 'livekit-client';
+import { useSharedCaptions } from '../../hooks/useSharedCaptions';
+
+/** @beta */
+export interface SharedMediaCaptionsProps {
+  /** The participant sharing the media file. */
+  participant: Participant;
+}
+
+/**
+ * Shows the captions of a shared media file on top of its tile, along with a button to hide them.
+ * @beta
+ */
+export function SharedMediaCaptions({ participant }: SharedMediaCaptionsProps) {
+  const caption = useSharedCaptions()[participant.identity];
+  const [showCaptions, setShowCaptions] = React.useState(true);
+
+  return (
+    <>
+      <button
+        className="lk-captions-toggle"
+        aria-pressed={showCaptions}
+        aria-label={showCaptions ? 'Hide captions' : 'Show captions'}
+        onClick={() => setShowCaptions((show) => !show)}
+      >
+        CC
+      </button>
+      {showCaptions && caption && <div className="lk-media-captions">{caption}</div>}
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+import * as React from 'react';
+import type { Participant } from 'livekit-client';
+import { getSharedMediaPosition, parseSharedMediaStatus } from '@livekit/components-core';
+import { useParticipantAttributes } from '../../hooks/useParticipantAttributes';
+import { formatPlaybackTime } from '../VideoFileControls';
+
+/** @beta */
+export interface SharedMediaOverlayProps {
+  /** The participant sharing the media file. */
+  participant: Participant;
+}
+
+/**
+ * Shows the title, progress and paused state of a shared media file on top of its tile, based on
+ * the playback status the sharer publishes as attributes.
+ * @beta
+ */
+export function SharedMediaOverlay({ participant }: SharedMediaOverlayProps) {
+  const { attributes } = useParticipantAttributes({ participant });
+  const status = React.useMemo(() => parseSharedMediaStatus(attributes), [attributes]);
+  // The position is extrapolated from the time the status arrived, not the clock of the sharer
+  const [arrival, setArrival] = React.useState<{ status: typeof status; receivedAt: number }>();
+  const [now, setNow] = React.useState(Date.now);
+
+  React.useEffect(() => {
+    const receivedAt = Date.now();
+    setArrival({ status, receivedAt });
+    setNow(receivedAt);
+  }, [status]);
+
+  React.useEffect(() => {
+    if (!status || status.paused) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  if (!status) {
+    return null;
+  }
+  // Until its arrival is recorded, the status counts as just received
+  const receivedAt = arrival?.status === status ? arrival.receivedAt : now;
+  const position = getSharedMediaPosition(status, receivedAt, Math.max(now, receivedAt));
+  const progress = status.duration > 0 ? (position / status.duration) * 100 : 0;
+
+  return (
+    <div className="lk-media-overlay" data-lk-paused={status.paused}>
+      <div className="lk-media-overlay-title">
+        {status.paused && <span aria-label="Paused">⏸</span>}
+        {status.name ?? 'Shared file'}
+      </div>
+      <div
+        className="lk-media-overlay-progress"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(status.duration)}
+        aria-valuenow={Math.round(position)}
+      >
+        <div className="lk-media-overlay-progress-bar" style={{ width: `${progress}%` }} />
+      </div>
+      <div className="lk-media-overlay-time">
+        {formatPlaybackTime(position)} / {formatPlaybackTime(status.duration)}
+      </div>
+    </div>
+  );
+}
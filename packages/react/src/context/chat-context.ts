@@ -6,7 +6,7 @@ export type ChatContextAction =
   | { msg: 'show_chat' }
   | { msg: 'hide_chat' }
   | { msg: 'toggle_chat' }
-  | { msg: 'unread_msg'; count: number }
+  | { msg: 'unread_msg'; count: number; mentions?: number }
   | { msg: 'toggle_settings' };
 
 /** @internal */
@@ -18,17 +18,18 @@ export type WidgetContextType = {
 /** @internal */
 export function chatReducer(state: WidgetState, action: ChatContextAction): WidgetState {
   if (action.msg === 'show_chat') {
-    return { ...state, showChat: true, unreadMessages: 0 };
+    return { ...state, showChat: true, unreadMessages: 0, unreadMentions: 0 };
   } else if (action.msg === 'hide_chat') {
     return { ...state, showChat: false };
   } else if (action.msg === 'toggle_chat') {
     const newState = { ...state, showChat: !state.showChat };
     if (newState.showChat === true) {
       newState.unreadMessages = 0;
+      newState.unreadMentions = 0;
     }
     return newState;
   } else if (action.msg === 'unread_msg') {
-    return { ...state, unreadMessages: action.count };
+    return { ...state, unreadMessages: action.count, unreadMentions: action.mentions ?? 0 };
   } else if (action.msg === 'toggle_settings') {
     return { ...state, showSettings: !state.showSettings };
   } else {
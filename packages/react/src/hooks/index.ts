@@ -46,6 +46,9 @@ export { type UseVisualStableUpdateOptions, useVisualStableUpdate } from './useV
 // export { UseTrackOptions, useTrack } from './useTrack';
 export { useTrackByName } from './useTrackByName';
 export { useChat } from './useChat';
+export { type UseChatReadStateOptions, useChatReadState } from './useChatReadState';
+export { type UseTypingParticipantsOptions, useTypingParticipants } from './useTypingParticipants';
+export { type UseTranscriptExportOptions, useTranscriptExport } from './useTranscriptExport';
 export {
   usePersistentUserChoices,
   type UsePersistentUserChoicesOptions,
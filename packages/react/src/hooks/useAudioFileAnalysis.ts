@@ -0,0 +1,48 @@
+import * as React from 'react';
+import { estimateBpm, log } from '@livekit/components-core';
+
+export interface AudioFileAnalysis {
+  /** Duration in seconds. */
+  duration: number;
+  /** Estimated tempo, `undefined` if the file has no discernible beat. */
+  bpm: number | undefined;
+}
+
+/**
+ * Decodes the audio file to read its duration and estimate its tempo.
+ */
+export function useAudioFileAnalysis(file: File | null) {
+  const [analysis, setAnalysis] = React.useState<AudioFileAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = React.useState(false);
+
+  React.useEffect(() => {
+    setAnalysis(null);
+    if (!file) {
+      setIsAnalyzing(false);
+      return;
+    }
+    let cancelled = false;
+    const context = new AudioContext();
+    setIsAnalyzing(true);
+    file
+      .arrayBuffer()
+      .then((data) => context.decodeAudioData(data))
+      .then((buffer) => {
+        if (cancelled) return;
+        setAnalysis({
+          duration: buffer.duration,
+          bpm: estimateBpm(buffer.getChannelData(0), buffer.sampleRate),
+        });
+      })
+      .catch((e) => log.warn('could not analyse audio file', e))
+      .finally(() => {
+        context.close();
+        if (!cancelled) setIsAnalyzing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  return { analysis, isAnalyzing };
+}
@@ -1,6 +1,6 @@
 import * as React from 'react';
 import type { ChatOptions, ReceivedChatMessage } from '@livekit/components-core';
-import { setupChat } from '@livekit/components-core';
+import { groupChatMessagesByThread, setupChat } from '@livekit/components-core';
 import { ConnectionState, Room } from 'livekit-client';
 import { useEnsureRoom } from '../context';
 import { useObservableState } from './internal/useObservableState';
@@ -10,13 +10,23 @@ import { useConnectionState } from './useConnectionStatus';
  * The `useChat` hook provides chat functionality for a LiveKit room.
  *
  * @remarks
- * Message history is not persisted and will be lost if the component is refreshed.
- * You may want to persist message history in the browser, a cache or a database.
+ * Message history is not persisted and will be lost if the component is refreshed, unless a
+ * `historyStore` is passed in the options, e.g. one created with
+ * `createLocalStorageChatHistoryStore(roomName)`.
  *
  * @returns An object containing:
  * - `chatMessages` - Array of received chat messages
  * - `send` - Function to send a new message
- * - `isSending` - Boolean indicating if a message is currently being sent
+ * - `reply` - Function to send a message as a reply to another one
+ * - `edit` - Function to replace the text of one of the own messages
+ * - `delete` - Function to remove one of the own messages for everyone
+ * - `react` - Function to toggle an emoji reaction of the local participant on a message
+ * - `cancelAttachment` - Function to stop sending or downloading an attachment
+ * - `threads` - The messages grouped by the thread they belong to
+ * - `getThread` - Function to get the thread a message belongs to
+ * - `isSending` - Boolean indicating if a message is currently being sent, or the send rate limit
+ *   is cooling down
+ * - `rateLimitedUntil` - When the next message may be sent, `0` if not limited by `sendRateLimit`
  *
  * @example
  * ```tsx
@@ -51,7 +61,28 @@ export function useChat(options?: ChatOptions & { room?: Room }) {
     [room, options, isDisconnected],
   );
   const isSending = useObservableState(setup.isSendingObservable, false);
+  const rateLimitedUntil = useObservableState(setup.rateLimitedUntilObservable, 0);
   const chatMessages = useObservableState<ReceivedChatMessage[]>(setup.messageObservable, []);
+  const threads = React.useMemo(() => groupChatMessagesByThread(chatMessages), [chatMessages]);
+  const getThread = React.useCallback(
+    (messageId: string) =>
+      threads.find(
+        ({ root, replies }) => root.id === messageId || replies.some((msg) => msg.id === messageId),
+      ),
+    [threads],
+  );
 
-  return { send: setup.send, chatMessages, isSending };
+  return {
+    send: setup.send,
+    reply: setup.reply,
+    edit: setup.edit,
+    delete: setup.delete,
+    react: setup.react,
+    cancelAttachment: setup.cancelAttachment,
+    chatMessages,
+    threads,
+    getThread,
+    isSending,
+    rateLimitedUntil,
+  };
 }
@@ -0,0 +1,57 @@
+import * as React from 'react';
+import type {
+  ChatReadStateOptions,
+  ChatReadTimestamps,
+  ReceivedChatMessage,
+} from '@livekit/components-core';
+import {
+  countUnreadChatMessages,
+  getChatMessageSeenBy,
+  setupChatReadState,
+} from '@livekit/components-core';
+import type { Room } from 'livekit-client';
+import { useEnsureRoom } from '../context';
+import { useObservableState } from './internal';
+
+/** @beta */
+export interface UseChatReadStateOptions extends ChatReadStateOptions {
+  room?: Room;
+}
+
+/**
+ * The `useChatReadState` hook tracks which chat messages the local participant has read and,
+ * if read receipts are sent, which participants have seen the messages. The read state is kept
+ * per room, so it is preserved while the chat is closed.
+ *
+ * @example
+ * ```tsx
+ * const { chatMessages } = useChat();
+ * const { markAsRead, getUnreadCount } = useChatReadState({ sendReceipts: true });
+ * const unread = getUnreadCount(chatMessages);
+ * ```
+ * @beta
+ */
+export function useChatReadState(options: UseChatReadStateOptions = {}) {
+  const room = useEnsureRoom(options.room);
+  const { lastReadTimestampObservable, readTimestampsObservable, markAsRead } = React.useMemo(
+    () => setupChatReadState(room, { topic: options.topic, sendReceipts: options.sendReceipts }),
+    [room, options.topic, options.sendReceipts],
+  );
+  const lastReadTimestamp = useObservableState(lastReadTimestampObservable, 0);
+  const readTimestamps = useObservableState<ChatReadTimestamps>(
+    readTimestampsObservable,
+    new Map(),
+  );
+
+  const getSeenBy = React.useCallback(
+    (message: ReceivedChatMessage) => getChatMessageSeenBy(message, readTimestamps),
+    [readTimestamps],
+  );
+  const getUnreadCount = React.useCallback(
+    (messages: ReceivedChatMessage[]) =>
+      countUnreadChatMessages(messages, lastReadTimestamp, room.localParticipant.identity),
+    [lastReadTimestamp, room],
+  );
+
+  return { lastReadTimestamp, readTimestamps, markAsRead, getSeenBy, getUnreadCount };
+}
@@ -31,6 +31,7 @@ export function useChatToggle({ props }: UseChatToggleProps) {
           ? state.unreadMessages.toFixed(0)
           : '9+'
         : '0',
+      'data-lk-unread-mentions': !!state?.unreadMentions,
     });
   }, [props, className, dispatch, state]);
 
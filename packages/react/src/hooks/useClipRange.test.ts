@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import { getClipDuration, getClipPlaybackAction } from './useClipRange';
+
+describe('Test getClipPlaybackAction', () => {
+  const range = { start: 10, end: 20 };
+
+  test('Playback within the clip is left alone.', () => {
+    expect(getClipPlaybackAction(range, 10, 'stop')).toBeUndefined();
+    expect(getClipPlaybackAction(range, 19.9, 'loop')).toBeUndefined();
+  });
+
+  test('Playback before the in point jumps to it.', () => {
+    expect(getClipPlaybackAction(range, 2, 'stop')).toStrictEqual({
+      seek: 10,
+      pause: false,
+      ended: false,
+    });
+  });
+
+  test('Playback stops at the out point.', () => {
+    expect(getClipPlaybackAction(range, 20.01, 'stop')).toStrictEqual({
+      seek: 20,
+      pause: true,
+      ended: true,
+    });
+  });
+
+  test('Playback loops back to the in point.', () => {
+    expect(getClipPlaybackAction(range, 20.01, 'loop')).toStrictEqual({
+      seek: 10,
+      pause: false,
+      ended: false,
+    });
+  });
+
+  test('Without an out point the file plays to its end.', () => {
+    expect(getClipPlaybackAction({ start: 10 }, 1000, 'stop')).toBeUndefined();
+  });
+});
+
+describe('Test getClipDuration', () => {
+  test.each([
+    { range: undefined, duration: 60, expected: 60 },
+    { range: { start: 10 }, duration: 60, expected: 50 },
+    { range: { start: 10, end: 25 }, duration: 60, expected: 15 },
+    { range: { start: 10, end: 90 }, duration: 60, expected: 50 },
+  ])(
+    'A clip of $range in $duration seconds lasts $expected seconds.',
+    ({ range, duration, expected }) => {
+      expect(getClipDuration(range, duration)).toBe(expected);
+    },
+  );
+});
@@ -0,0 +1,132 @@
+import * as React from 'react';
+
+/** In and out points in seconds of the part of a file that is shared. */
+export interface ClipRange {
+  start: number;
+  /** Plays to the end of the file if not set. */
+  end?: number;
+}
+
+/** What happens when playback reaches the out point. */
+export type ClipEndBehavior = 'stop' | 'loop';
+
+/** @internal */
+export type ClipPlaybackAction = { seek: number; pause: boolean; ended: boolean };
+
+// Tolerance for positions that are reported slightly before the in point after seeking to it
+const CLIP_TOLERANCE = 0.05;
+
+/**
+ * Returns how a playing element has to be corrected to stay within the clip, `undefined` if it
+ * is inside of it.
+ * @internal
+ */
+export function getClipPlaybackAction(
+  range: ClipRange,
+  currentTime: number,
+  behavior: ClipEndBehavior,
+): ClipPlaybackAction | undefined {
+  if (currentTime < range.start - CLIP_TOLERANCE) {
+    return { seek: range.start, pause: false, ended: false };
+  }
+  if (range.end !== undefined && currentTime >= range.end) {
+    return behavior === 'loop'
+      ? { seek: range.start, pause: false, ended: false }
+      : { seek: range.end, pause: true, ended: true };
+  }
+  return undefined;
+}
+
+/** Returns the clipped length in seconds of a file with the given duration. */
+export function getClipDuration(range: ClipRange | undefined, duration: number): number {
+  if (!range) {
+    return duration;
+  }
+  return Math.max(0, Math.min(range.end ?? duration, duration) - range.start);
+}
+
+/** In and out points of the part of a file that is shared. */
+export function useClipRange() {
+  const [range, setRange] = React.useState<ClipRange>({ start: 0 });
+  const isClipped = range.start > 0 || range.end !== undefined;
+
+  const setClipStart = React.useCallback(
+    (start: number) =>
+      setRange((prev) => ({ start, end: prev.end && prev.end > start ? prev.end : undefined })),
+    [],
+  );
+  const setClipEnd = React.useCallback(
+    (end: number) => setRange((prev) => (end > prev.start ? { ...prev, end } : prev)),
+    [],
+  );
+  const clearClip = React.useCallback(() => setRange({ start: 0 }), []);
+
+  return { clipRange: range, isClipped, setClipStart, setClipEnd, clearClip };
+}
+
+export interface UseClipPlaybackOptions {
+  /** @defaultValue 'stop' */
+  behavior?: ClipEndBehavior;
+  /** Called when playback stopped at the out point. */
+  onEnded?: () => void;
+}
+
+/**
+ * Keeps the playback of the media element within the clip. Starting playback outside of the clip
+ * jumps to the in point, reaching the out point stops or loops the playback.
+ */
+export function useClipPlayback(
+  mediaElement: HTMLMediaElement | null,
+  range: ClipRange,
+  { behavior = 'stop', onEnded }: UseClipPlaybackOptions = {},
+) {
+  const isClipped = range.start > 0 || range.end !== undefined;
+  const onEndedRef = React.useRef(onEnded);
+  onEndedRef.current = onEnded;
+
+  React.useEffect(() => {
+    if (!mediaElement || !isClipped) {
+      return;
+    }
+    const onPlay = () => {
+      const atEnd = range.end !== undefined && mediaElement.currentTime >= range.end;
+      if (atEnd || mediaElement.currentTime < range.start - CLIP_TOLERANCE) {
+        mediaElement.currentTime = range.start;
+      }
+    };
+    // `timeupdate` only fires a few times per second, which overshoots the out point noticeably.
+    let frame: number;
+    const checkPosition = () => {
+      const action = mediaElement.paused
+        ? undefined
+        : getClipPlaybackAction(range, mediaElement.currentTime, behavior);
+      if (action) {
+        if (action.pause) {
+          mediaElement.pause();
+        }
+        mediaElement.currentTime = action.seek;
+        if (action.ended) {
+          onEndedRef.current?.();
+        }
+      }
+      frame = requestAnimationFrame(checkPosition);
+    };
+    mediaElement.addEventListener('play', onPlay);
+    frame = requestAnimationFrame(checkPosition);
+    return () => {
+      mediaElement.removeEventListener('play', onPlay);
+      cancelAnimationFrame(frame);
+    };
+  }, [mediaElement, range, isClipped, behavior]);
+
+  /** Plays the clip from its in point. */
+  const preview = React.useCallback(async () => {
+    if (!mediaElement) {
+      return;
+    }
+    mediaElement.currentTime = range.start;
+    await mediaElement.play();
+  }, [mediaElement, range.start]);
+
+  return { preview };
+}
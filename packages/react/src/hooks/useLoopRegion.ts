@@ -0,0 +1,57 @@
+import * as React from 'react';
+
+/** A/B region in seconds that the player jumps back through. */
+export interface LoopRegion {
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Returns the position to jump to if playback has run past the end of the loop region.
+ * @internal
+ */
+export function getLoopSeekPosition(region: LoopRegion, currentTime: number): number | undefined {
+  const { start = 0, end } = region;
+  if (end === undefined || end <= start) {
+    return undefined;
+  }
+  return currentTime >= end ? start : undefined;
+}
+
+/**
+ * Repeats the region between the A (`start`) and B (`end`) markers of the media element.
+ * Without a B marker the element plays through as usual.
+ */
+export function useLoopRegion(mediaElement: HTMLMediaElement | null) {
+  const [region, setRegion] = React.useState<LoopRegion>({});
+
+  React.useEffect(() => {
+    if (!mediaElement || region.end === undefined) {
+      return;
+    }
+    // `timeupdate` only fires a few times per second, which is too coarse for musical loops.
+    let frame: number;
+    const checkPosition = () => {
+      const position = getLoopSeekPosition(region, mediaElement.currentTime);
+      if (position !== undefined) {
+        mediaElement.currentTime = position;
+      }
+      frame = requestAnimationFrame(checkPosition);
+    };
+    frame = requestAnimationFrame(checkPosition);
+    return () => cancelAnimationFrame(frame);
+  }, [mediaElement, region]);
+
+  const setLoopStart = React.useCallback(
+    (start: number) =>
+      setRegion((prev) => ({ start, end: prev.end && prev.end > start ? prev.end : undefined })),
+    [],
+  );
+  const setLoopEnd = React.useCallback(
+    (end: number) => setRegion((prev) => (end > (prev.start ?? 0) ? { ...prev, end } : prev)),
+    [],
+  );
+  const clearLoop = React.useCallback(() => setRegion({}), []);
+
+  return { loopRegion: region, setLoopStart, setLoopEnd, clearLoop };
+}
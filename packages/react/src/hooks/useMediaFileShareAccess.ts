@@ -0,0 +1,38 @@
+import * as React from 'react';
+import { Track } from 'livekit-client';
+import type { Participant } from 'livekit-client';
+import type { MediaFileSharePolicy } from '@livekit/components-core';
+import { canShareMediaFile, isMediaFileShareTrack } from '@livekit/components-core';
+import { useRoomContext } from '../context';
+import { useLocalParticipantPermissions } from './useLocalParticipantPermissions';
+import { useParticipantAttributes } from './useParticipantAttributes';
+import { useTracks } from './useTracks';
+import type { MediaFileShareKind } from './useVideoFileShare';
+
+/**
+ * Whether the local participant may share a media file of the given kind, based on its
+ * permissions and the optional policy.
+ */
+export function useCanShareMediaFile(
+  kind: MediaFileShareKind = 'video',
+  policy?: MediaFileSharePolicy,
+): boolean {
+  const room = useRoomContext();
+  const permissions = useLocalParticipantPermissions();
+  const { attributes } = useParticipantAttributes({ participant: room.localParticipant });
+  return React.useMemo(
+    () => canShareMediaFile({ permissions, attributes }, kind, policy),
+    [permissions, attributes, kind, policy],
+  );
+}
+
+/**
+ * The participant that is currently sharing a media file, if any. This includes the local
+ * participant, as only one file can be shared at a time, also across video and audio shares.
+ */
+export function useMediaFileSharer(): Participant | undefined {
+  const tracks = useTracks([Track.Source.ScreenShare, Track.Source.ScreenShareAudio], {
+    onlySubscribed: false,
+  });
+  return tracks.find(isMediaFileShareTrack)?.participant;
+}
@@ -0,0 +1,33 @@
+import * as React from 'react';
+import type { CaptionsByIdentity } from '@livekit/components-core';
+import { setupCaptions } from '@livekit/components-core';
+import type { Room } from 'livekit-client';
+import { useEnsureRoom } from '../context';
+import { useObservableState } from './internal';
+
+/** @beta */
+export interface UseSharedCaptionsOptions {
+  room?: Room;
+  /** The text stream topic captions are sent on. */
+  topic?: string;
+}
+
+/**
+ * The `useSharedCaptions` hook returns the captions remote participants currently show for the
+ * media files they share, by participant identity.
+ *
+ * @example
+ * ```tsx
+ * const captions = useSharedCaptions();
+ * const caption = captions[participant.identity];
+ * ```
+ * @beta
+ */
+export function useSharedCaptions(options: UseSharedCaptionsOptions = {}) {
+  const room = useEnsureRoom(options.room);
+  const captionsObservable = React.useMemo(
+    () => setupCaptions(room, { topic: options.topic }),
+    [room, options.topic],
+  );
+  return useObservableState<CaptionsByIdentity>(captionsObservable, {});
+}
@@ -0,0 +1,52 @@
+import * as React from 'react';
+import type { PlaybackCommand, ReceivedPlaybackState } from '@livekit/components-core';
+import { setupPlaybackSync } from '@livekit/components-core';
+import type { Room } from 'livekit-client';
+import { useEnsureRoom } from '../context';
+import { useObservableState } from './internal';
+
+/** @beta */
+export interface UseSharedPlaybackOptions {
+  room?: Room;
+  /** The data topic playback messages are exchanged on. */
+  topic?: string;
+}
+
+/**
+ * The `useSharedPlayback` hook returns the playback state of a media file that is shared
+ * by a remote participant. If the sharer delegated control to the local participant,
+ * `isCoHost` is `true` and `sendCommand` drives the sharer's player.
+ *
+ * @example
+ * ```tsx
+ * const { playbackState, isCoHost, sendCommand } = useSharedPlayback();
+ * ```
+ * @beta
+ */
+export function useSharedPlayback(options: UseSharedPlaybackOptions = {}) {
+  const room = useEnsureRoom(options.room);
+  const { playbackStateObservable, sendCommand: sendSyncCommand } = React.useMemo(
+    () => setupPlaybackSync(room, { topic: options.topic }),
+    [room, options.topic],
+  );
+  const playbackState = useObservableState<ReceivedPlaybackState | undefined>(
+    playbackStateObservable,
+    undefined,
+  );
+
+  const isCoHost =
+    !!playbackState?.coHostIdentity &&
+    playbackState.coHostIdentity === room.localParticipant.identity;
+
+  const sendCommand = React.useCallback(
+    async (command: PlaybackCommand) => {
+      if (!playbackState || !isCoHost) {
+        throw new Error('Only the co-host of a shared file can control its playback');
+      }
+      await sendSyncCommand(command, playbackState.from.identity);
+    },
+    [playbackState, isCoHost, sendSyncCommand],
+  );
+
+  return { playbackState, isCoHost, sendCommand };
+}
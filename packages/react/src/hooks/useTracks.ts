@@ -20,6 +20,12 @@ import { useEnsureRoom } from '../context';
 export type UseTracksOptions = {
   updateOnlyOn?: RoomEvent[];
   onlySubscribed?: boolean;
+  /**
+   * Leave out the tracks of shared media files, so that `Track.Source.ScreenShare` and
+   * `Track.Source.ScreenShareAudio` only match real screen shares.
+   * @beta
+   */
+  excludeMediaFileShares?: boolean;
   room?: Room;
 };
 
@@ -68,6 +74,7 @@ export function useTracks<T extends SourcesArray = Track.Source[]>(
     const subscription = trackReferencesObservable(room, sources_, {
       additionalRoomEvents: options.updateOnlyOn,
       onlySubscribed: options.onlySubscribed,
+      excludeMediaFileShares: options.excludeMediaFileShares,
     }).subscribe(({ trackReferences, participants }) => {
       log.debug('setting track bundles', trackReferences, participants);
       setTrackReferences(trackReferences);
@@ -77,6 +84,7 @@ export function useTracks<T extends SourcesArray = Track.Source[]>(
   }, [
     room,
     JSON.stringify(options.onlySubscribed),
+    JSON.stringify(options.excludeMediaFileShares),
     JSON.stringify(options.updateOnlyOn),
     JSON.stringify(sources),
   ]);
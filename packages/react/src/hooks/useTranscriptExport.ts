@@ -0,0 +1,55 @@
+import * as React from 'react';
+import type {
+  ReceivedMessage,
+  TranscriptExportOptions,
+  TranscriptFormat,
+} from '@livekit/components-core';
+import { exportTranscript, transcriptFileTypes } from '@livekit/components-core';
+
+/** @beta */
+export interface UseTranscriptExportOptions extends TranscriptExportOptions {
+  /**
+   * The name of the downloaded file, without extension.
+   * @defaultValue 'transcript'
+   */
+  fileName?: string;
+}
+
+/**
+ * The `useTranscriptExport` hook serializes chat messages and transcriptions, e.g. those of
+ * `useSessionMessages`, and downloads them as a Markdown, JSON, HTML or plain text file.
+ *
+ * @example
+ * ```tsx
+ * const { messages } = useSessionMessages();
+ * const { downloadTranscript } = useTranscriptExport(messages, { title: 'Support call' });
+ * <button onClick={() => downloadTranscript('markdown')}>Export</button>;
+ * ```
+ * @beta
+ */
+export function useTranscriptExport(
+  messages: ReceivedMessage[],
+  { fileName = 'transcript', title, formatTimestamp }: UseTranscriptExportOptions = {},
+) {
+  const getTranscript = React.useCallback(
+    (format: TranscriptFormat) => exportTranscript(messages, format, { title, formatTimestamp }),
+    [messages, title, formatTimestamp],
+  );
+
+  const downloadTranscript = React.useCallback(
+    (format: TranscriptFormat) => {
+      const { extension, mimeType } = transcriptFileTypes[format];
+      const blob = new Blob([getTranscript(format)], { type: `${mimeType};charset=utf-8` });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}.${extension}`;
+      link.click();
+      // Revoke once the download has started
+      setTimeout(() => URL.revokeObjectURL(url));
+    },
+    [getTranscript, fileName],
+  );
+
+  return { getTranscript, downloadTranscript };
+}
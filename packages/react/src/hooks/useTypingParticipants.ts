@@ -0,0 +1,38 @@
+import * as React from 'react';
+import type { TypingIndicatorOptions } from '@livekit/components-core';
+import { setupTypingIndicator } from '@livekit/components-core';
+import type { Participant, Room } from 'livekit-client';
+import { useEnsureRoom } from '../context';
+import { useObservableState } from './internal';
+
+/** @beta */
+export interface UseTypingParticipantsOptions extends TypingIndicatorOptions {
+  room?: Room;
+}
+
+/**
+ * The `useTypingParticipants` hook returns the remote participants that are currently typing a
+ * chat message. Call `sendTyping` while the local participant types and `sendStopTyping` once the
+ * message was sent.
+ *
+ * @example
+ * ```tsx
+ * const { typingParticipants, sendTyping } = useTypingParticipants();
+ * ```
+ * @beta
+ */
+export function useTypingParticipants(options: UseTypingParticipantsOptions = {}) {
+  const room = useEnsureRoom(options.room);
+  const { typingParticipantsObservable, sendTyping, sendStopTyping } = React.useMemo(
+    () =>
+      setupTypingIndicator(room, {
+        topic: options.topic,
+        timeout: options.timeout,
+        throttle: options.throttle,
+      }),
+    [room, options.topic, options.timeout, options.throttle],
+  );
+  const typingParticipants = useObservableState<Participant[]>(typingParticipantsObservable, []);
+
+  return { typingParticipants, sendTyping, sendStopTyping };
+}
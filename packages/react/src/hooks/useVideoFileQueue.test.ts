@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'vitest';
+import type { VideoFileQueueState } from './useVideoFileQueue';
+import { videoFileQueueReducer } from './useVideoFileQueue';
+
+const mockFile = (name: string) => new File([], name, { type: 'video/mp4' });
+const names = (state: VideoFileQueueState) => state.files.map((file) => file.name);
+
+describe('Test videoFileQueueReducer', () => {
+  const initialState: VideoFileQueueState = {
+    files: [mockFile('a'), mockFile('b'), mockFile('c'), mockFile('d')],
+    currentIndex: 1,
+  };
+
+  test('Added files are appended to the end of the queue.', () => {
+    const state = videoFileQueueReducer(initialState, { msg: 'add', files: [mockFile('e')] });
+    expect(names(state)).toStrictEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(state.currentIndex).toBe(1);
+  });
+
+  test.each([
+    { from: 1, to: 3, order: ['a', 'c', 'd', 'b'], currentIndex: 3 },
+    { from: 0, to: 2, order: ['b', 'c', 'a', 'd'], currentIndex: 0 },
+    { from: 3, to: 0, order: ['d', 'a', 'b', 'c'], currentIndex: 2 },
+    { from: 2, to: 3, order: ['a', 'b', 'd', 'c'], currentIndex: 1 },
+  ])(
+    'Moving $from to $to keeps the current file selected.',
+    ({ from, to, order, currentIndex }) => {
+      const state = videoFileQueueReducer(initialState, { msg: 'move', from, to });
+      expect(names(state)).toStrictEqual(order);
+      expect(state.currentIndex).toBe(currentIndex);
+      expect(state.files[state.currentIndex].name).toBe('b');
+    },
+  );
+
+  test('Removing the current file selects its successor.', () => {
+    const state = videoFileQueueReducer(initialState, { msg: 'remove', index: 1 });
+    expect(names(state)).toStrictEqual(['a', 'c', 'd']);
+    expect(state.files[state.currentIndex].name).toBe('c');
+  });
+
+  test('Removing a file before the current one keeps the current file selected.', () => {
+    const state = videoFileQueueReducer(initialState, { msg: 'remove', index: 0 });
+    expect(state.files[state.currentIndex].name).toBe('b');
+  });
+
+  test('Advancing stops at the last file.', () => {
+    let state = videoFileQueueReducer(initialState, { msg: 'next' });
+    state = videoFileQueueReducer(state, { msg: 'next' });
+    expect(state.currentIndex).toBe(3);
+    expect(videoFileQueueReducer(state, { msg: 'next' })).toBe(state);
+  });
+});
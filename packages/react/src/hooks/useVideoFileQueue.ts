@@ -0,0 +1,101 @@
+import * as React from 'react';
+
+export interface VideoFileQueueState {
+  files: File[];
+  /** Index of the file that is currently loaded into the player. */
+  currentIndex: number;
+}
+
+export type VideoFileQueueAction =
+  | { msg: 'add'; files: File[] }
+  | { msg: 'remove'; index: number }
+  | { msg: 'move'; from: number; to: number }
+  | { msg: 'select'; index: number }
+  | { msg: 'next' }
+  | { msg: 'clear' };
+
+/** @internal */
+export function videoFileQueueReducer(
+  state: VideoFileQueueState,
+  action: VideoFileQueueAction,
+): VideoFileQueueState {
+  const { files, currentIndex } = state;
+  if (action.msg === 'add') {
+    return { ...state, files: [...files, ...action.files] };
+  } else if (action.msg === 'remove') {
+    if (action.index < 0 || action.index >= files.length) {
+      return state;
+    }
+    const nextFiles = files.filter((_, i) => i !== action.index);
+    // Keep pointing at the same file, or at its successor if the current file was removed.
+    const nextIndex = action.index < currentIndex ? currentIndex - 1 : currentIndex;
+    return {
+      files: nextFiles,
+      currentIndex: Math.max(0, Math.min(nextIndex, nextFiles.length - 1)),
+    };
+  } else if (action.msg === 'move') {
+    const { from, to } = action;
+    if (from === to || from < 0 || to < 0 || from >= files.length || to >= files.length) {
+      return state;
+    }
+    const nextFiles = [...files];
+    const [file] = nextFiles.splice(from, 1);
+    nextFiles.splice(to, 0, file);
+    let nextIndex = currentIndex;
+    if (from === currentIndex) {
+      nextIndex = to;
+    } else if (from < currentIndex && to >= currentIndex) {
+      nextIndex = currentIndex - 1;
+    } else if (from > currentIndex && to <= currentIndex) {
+      nextIndex = currentIndex + 1;
+    }
+    return { files: nextFiles, currentIndex: nextIndex };
+  } else if (action.msg === 'select') {
+    if (action.index < 0 || action.index >= files.length) {
+      return state;
+    }
+    return { ...state, currentIndex: action.index };
+  } else if (action.msg === 'next') {
+    if (currentIndex >= files.length - 1) {
+      return state;
+    }
+    return { ...state, currentIndex: currentIndex + 1 };
+  } else if (action.msg === 'clear') {
+    return { files: [], currentIndex: 0 };
+  } else {
+    return { ...state };
+  }
+}
+
+/**
+ * Manages an ordered queue of video files that are shared one after another.
+ */
+export function useVideoFileQueue() {
+  const [state, dispatch] = React.useReducer(videoFileQueueReducer, {
+    files: [],
+    currentIndex: 0,
+  });
+
+  const addFiles = React.useCallback((files: File[]) => dispatch({ msg: 'add', files }), []);
+  const removeFile = React.useCallback((index: number) => dispatch({ msg: 'remove', index }), []);
+  const moveFile = React.useCallback(
+    (from: number, to: number) => dispatch({ msg: 'move', from, to }),
+    [],
+  );
+  const selectFile = React.useCallback((index: number) => dispatch({ msg: 'select', index }), []);
+  const next = React.useCallback(() => dispatch({ msg: 'next' }), []);
+  const clear = React.useCallback(() => dispatch({ msg: 'clear' }), []);
+
+  return {
+    files: state.files,
+    currentIndex: state.currentIndex,
+    currentFile: state.files[state.currentIndex] ?? null,
+    hasNext: state.currentIndex < state.files.length - 1,
+    addFiles,
+    removeFile,
+    moveFile,
+    selectFile,
+    next,
+    clear,
+  };
+}
@@ -0,0 +1,353 @@
+import * as React from 'react';
+import { EventEmitter } from 'events';
+import { act, renderHook } from '@testing-library/react';
+import { describe, test, expect, vi } from 'vitest';
+import { ParticipantPermission, TrackInfo, TrackSource } from '@livekit/protocol';
+import type { Room } from 'livekit-client';
+import {
+  ConnectionState,
+  LocalAudioTrack,
+  Participant,
+  RemoteTrackPublication,
+  RoomEvent,
+  Track,
+} from 'livekit-client';
+import { MediaFileShareTrackName, parseSharedMediaStatus } from '@livekit/components-core';
+import { RoomContext } from '../context';
+import type { VideoFileShareLifecycle, VideoFileShareState } from './useVideoFileShare';
+import { useVideoFileShare, videoFileShareReducer } from './useVideoFileShare';
+
+describe('Test videoFileShareReducer', () => {
+  const at = (state: VideoFileShareState): VideoFileShareLifecycle => ({ state, error: null });
+  const error = new Error('failed');
+
+  test.each([
+    { from: 'idle', msg: 'start', to: 'loading' },
+    { from: 'idle', msg: 'wait', to: 'waiting' },
+    { from: 'waiting', msg: 'start', to: 'loading' },
+    { from: 'waiting', msg: 'stop', to: 'idle' },
+    { from: 'error', msg: 'start', to: 'loading' },
+    { from: 'loading', msg: 'started', to: 'sharing' },
+    { from: 'loading', msg: 'stop', to: 'stopping' },
+    { from: 'sharing', msg: 'stop', to: 'stopping' },
+    { from: 'stopping', msg: 'stopped', to: 'idle' },
+  ] as const)('$from → $to on $msg.', ({ from, msg, to }) => {
+    expect(videoFileShareReducer(at(from), { msg }).state).toBe(to);
+  });
+
+  test.each([
+    { from: 'sharing', msg: 'start' },
+    { from: 'sharing', msg: 'wait' },
+    { from: 'stopping', msg: 'started' },
+    { from: 'idle', msg: 'stop' },
+    { from: 'sharing', msg: 'stopped' },
+  ] as const)('$msg is ignored in $from.', ({ from, msg }) => {
+    const lifecycle = at(from);
+    expect(videoFileShareReducer(lifecycle, { msg })).toBe(lifecycle);
+  });
+
+  test('Failures keep the error and a new start clears it.', () => {
+    const failed = videoFileShareReducer(at('sharing'), { msg: 'fail', error });
+    expect(failed).toStrictEqual({ state: 'error', error });
+    expect(videoFileShareReducer(failed, { msg: 'start' })).toStrictEqual(at('loading'));
+  });
+});
+
+class FakeTrack extends EventTarget {
+  contentHint = '';
+  readyState: MediaStreamTrackState = 'live';
+  constructor(readonly kind: 'video' | 'audio') {
+    super();
+  }
+  stop = vi.fn(() => {
+    this.readyState = 'ended';
+  });
+}
+
+class FakeStream extends EventTarget {
+  constructor(private tracks: FakeTrack[]) {
+    super();
+  }
+  getTracks = () => this.tracks;
+  getVideoTracks = () => this.tracks.filter((track) => track.kind === 'video');
+  getAudioTracks = () => this.tracks.filter((track) => track.kind === 'audio');
+}
+
+/** Mimics the parts of a room and its local participant the hook talks to. */
+class FakeRoom extends EventEmitter {
+  state = ConnectionState.Connected;
+  options = { webAudioMix: false };
+  publications = new Map<FakeTrack, object>();
+  remoteParticipants = new Map<string, Participant>();
+  localParticipant = Object.assign(new EventEmitter(), {
+    identity: 'local',
+    isLocal: true,
+    attributes: {} as Record<string, string>,
+    permissions: new ParticipantPermission({ canPublish: true }),
+    trackPublications: new Map(),
+    getTrackPublication: vi.fn(() => undefined),
+    publishTrack: vi.fn(async (track: FakeTrack, options: { name: string }) => {
+      const publication = {
+        track: { kind: track.kind, replaceTrack: vi.fn() },
+        trackName: options.name,
+      };
+      this.publications.set(track, publication);
+      return publication;
+    }),
+    unpublishTrack: vi.fn(async () => undefined),
+    setAttributes: vi.fn<(attributes: Record<string, string>) => Promise<void>>(async () => {}),
+  });
+
+  /** Lets a remote participant start or stop sharing a video file. */
+  setRemoteSharer(isSharing: boolean) {
+    const participant = new Participant('PA_remote', 'remote', 'Remote');
+    if (isSharing) {
+      const publication = new RemoteTrackPublication(
+        Track.Kind.Video,
+        new TrackInfo({
+          sid: 'TR_remote',
+          name: MediaFileShareTrackName.Video,
+          source: TrackSource.SCREEN_SHARE,
+        }),
+        false,
+      );
+      participant.trackPublications.set(publication.trackSid, publication);
+      this.remoteParticipants.set(participant.identity, participant);
+    } else {
+      this.remoteParticipants.delete(participant.identity);
+    }
+    this.emit(RoomEvent.ParticipantConnected, participant);
+  }
+
+  /** Lets the local participant share an audio file, e.g. from another hook. */
+  setLocalAudioShare() {
+    const publication = new RemoteTrackPublication(
+      Track.Kind.Audio,
+      new TrackInfo({
+        sid: 'TR_local',
+        name: MediaFileShareTrackName.Audio,
+        source: TrackSource.SCREEN_SHARE_AUDIO,
+      }),
+      false,
+    );
+    this.localParticipant.trackPublications.set(publication.trackSid, publication);
+    this.emit(RoomEvent.LocalTrackPublished, publication, this.localParticipant);
+  }
+
+  /** Publishes a microphone track that the file audio can be mixed into. */
+  setMicrophone() {
+    const track = Object.assign(Object.create(LocalAudioTrack.prototype) as LocalAudioTrack, {
+      getProcessor: vi.fn(() => undefined),
+      setProcessor: vi.fn(async () => {}),
+      stopProcessor: vi.fn(async () => {}),
+    });
+    this.localParticipant.getTrackPublication.mockReturnValue({ track } as never);
+    return track;
+  }
+
+  /** What the SDK does when a published screen share track ends. */
+  endTrack(track: FakeTrack) {
+    this.emit(RoomEvent.LocalTrackUnpublished, this.publications.get(track), this.localParticipant);
+  }
+
+  disconnect() {
+    this.state = ConnectionState.Disconnected;
+    this.emit(RoomEvent.Disconnected);
+  }
+}
+
+function setup(options: Parameters<typeof useVideoFileShare>[0] = {}) {
+  const room = new FakeRoom();
+  const tracks = [new FakeTrack('video'), new FakeTrack('audio')];
+  const videoElement = document.createElement('video');
+  Object.assign(videoElement, { captureStream: () => new FakeStream(tracks) });
+  const onTrackUnpublished = vi.fn();
+  const hookOptions = { syncPlayback: false, onTrackUnpublished, ...options };
+  const hook = renderHook(() => useVideoFileShare(hookOptions), {
+    wrapper: ({ children }) => (
+      <RoomContext.Provider value={room as unknown as Room}>{children}</RoomContext.Provider>
+    ),
+  });
+  act(() => hook.result.current.setVideoElement(videoElement));
+  const startSharing = () => act(() => hook.result.current.startSharing());
+  return { room, tracks, hook, onTrackUnpublished, startSharing };
+}
+
+describe('Test useVideoFileShare lifecycle', () => {
+  test('Sharing publishes the captured tracks and stopping unpublishes them.', async () => {
+    const { room, tracks, hook, startSharing } = setup();
+    expect(hook.result.current.state).toBe('idle');
+
+    await startSharing();
+    expect(hook.result.current.state).toBe('sharing');
+    expect(room.localParticipant.publishTrack).toHaveBeenCalledTimes(2);
+
+    await act(() => hook.result.current.stopSharing());
+    expect(hook.result.current.state).toBe('idle');
+    expect(room.localParticipant.unpublishTrack).toHaveBeenCalledTimes(2);
+    tracks.forEach((track) => expect(track.stop).toHaveBeenCalled());
+  });
+
+  test('A disconnect ends the share without unpublishing.', async () => {
+    const { room, tracks, hook, onTrackUnpublished, startSharing } = setup();
+    await startSharing();
+
+    await act(async () => room.disconnect());
+    expect(hook.result.current.state).toBe('idle');
+    expect(room.localParticipant.unpublishTrack).not.toHaveBeenCalled();
+    expect(onTrackUnpublished).toHaveBeenCalledOnce();
+    tracks.forEach((track) => expect(track.stop).toHaveBeenCalled());
+  });
+
+  test('An ended track stops the rest of the share.', async () => {
+    const { room, tracks, hook, startSharing } = setup();
+    await startSharing();
+
+    await act(async () => room.endTrack(tracks[0]));
+    expect(hook.result.current.state).toBe('idle');
+    expect(room.localParticipant.unpublishTrack).toHaveBeenCalledOnce();
+    expect(room.localParticipant.unpublishTrack).toHaveBeenCalledWith(
+      (room.publications.get(tracks[1]) as { track: unknown }).track,
+    );
+  });
+
+  test('Swapping the file while sharing bridges the published tracks.', async () => {
+    const { room, tracks, hook, startSharing } = setup();
+    const bridgeStream = { getVideoTracks: () => [{ stop: vi.fn() }] };
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    Object.assign(HTMLCanvasElement.prototype, { captureStream: () => bridgeStream });
+    vi.stubGlobal(
+      'AudioContext',
+      class {
+        createMediaStreamDestination = () => ({
+          stream: { getAudioTracks: () => [{ stop: vi.fn() }] },
+        });
+        close = vi.fn();
+      },
+    );
+    await startSharing();
+
+    await act(async () => hook.result.current.videoElement!.dispatchEvent(new Event('emptied')));
+    tracks.forEach((track) => {
+      const publication = room.publications.get(track) as {
+        track: { replaceTrack: ReturnType<typeof vi.fn> };
+      };
+      expect(publication.track.replaceTrack).toHaveBeenCalledOnce();
+    });
+    expect(hook.result.current.state).toBe('sharing');
+
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    delete (HTMLCanvasElement.prototype as { captureStream?: unknown }).captureStream;
+  });
+
+  test('Unmounting stops the share.', async () => {
+    const { room, hook, startSharing } = setup();
+    await startSharing();
+
+    await act(async () => hook.unmount());
+    expect(room.localParticipant.unpublishTrack).toHaveBeenCalledTimes(2);
+  });
+
+  test('A failed publish ends up in the error state.', async () => {
+    const { room, hook, startSharing } = setup();
+    room.localParticipant.publishTrack.mockRejectedValueOnce(new Error('publish failed'));
+
+    await startSharing();
+    expect(hook.result.current.state).toBe('error');
+    expect(hook.result.current.error?.message).toBe('publish failed');
+  });
+
+  test('Participants without permission or outside the policy cannot share.', async () => {
+    const { room, hook, startSharing } = setup({
+      policy: { attribute: 'role', allowedValues: ['host'] },
+    });
+    expect(hook.result.current.canShare).toBe(false);
+
+    await startSharing();
+    expect(hook.result.current.state).toBe('error');
+    expect(room.localParticipant.publishTrack).not.toHaveBeenCalled();
+  });
+
+  test('Sharing is blocked while a remote participant shares a file.', async () => {
+    const { room, hook, startSharing } = setup();
+    act(() => room.setRemoteSharer(true));
+    expect(hook.result.current.activeSharer?.identity).toBe('remote');
+
+    await startSharing();
+    expect(hook.result.current.state).toBe('error');
+    expect(hook.result.current.error?.message).toBe('Remote is already sharing a file');
+  });
+
+  test('Only one file can be shared at a time, also by the local participant.', async () => {
+    const { room, hook, startSharing } = setup();
+    act(() => room.setLocalAudioShare());
+    expect(hook.result.current.activeSharer?.identity).toBe('local');
+
+    await startSharing();
+    expect(hook.result.current.error?.message).toBe('You are already sharing a file');
+    expect(room.localParticipant.publishTrack).not.toHaveBeenCalled();
+  });
+
+  test('A queued share starts once the remote share has ended.', async () => {
+    const { room, hook, startSharing } = setup({ whenBusy: 'queue' });
+    act(() => room.setRemoteSharer(true));
+
+    await startSharing();
+    expect(hook.result.current.state).toBe('waiting');
+    expect(room.localParticipant.publishTrack).not.toHaveBeenCalled();
+
+    await act(async () => room.setRemoteSharer(false));
+    expect(hook.result.current.state).toBe('sharing');
+    expect(room.localParticipant.publishTrack).toHaveBeenCalledTimes(2);
+  });
+
+  test('The file audio is mixed into the microphone if the room has an audio context.', async () => {
+    const { room, hook, startSharing } = setup({ mixWithMicrophone: true });
+    room.options.webAudioMix = true;
+    const microphone = room.setMicrophone();
+
+    await startSharing();
+    expect(hook.result.current.isMixingWithMicrophone).toBe(true);
+    expect(microphone.setProcessor).toHaveBeenCalledOnce();
+    expect(room.localParticipant.publishTrack).toHaveBeenCalledOnce();
+
+    await act(() => hook.result.current.stopSharing());
+    expect(microphone.stopProcessor).toHaveBeenCalledOnce();
+  });
+
+  test('Without webAudioMix the file audio is published as a separate track.', async () => {
+    const { room, hook, startSharing } = setup({ mixWithMicrophone: true });
+    const microphone = room.setMicrophone();
+
+    await startSharing();
+    expect(hook.result.current.state).toBe('sharing');
+    expect(microphone.setProcessor).not.toHaveBeenCalled();
+    expect(room.localParticipant.publishTrack).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ source: Track.Source.ScreenShareAudio }),
+    );
+  });
+
+  test('A microphone with another processor keeps it and the file audio is published separately.', async () => {
+    const { room, startSharing } = setup({ mixWithMicrophone: true });
+    room.options.webAudioMix = true;
+    const microphone = room.setMicrophone();
+    microphone.getProcessor.mockReturnValue({ name: 'noise-filter' } as never);
+
+    await startSharing();
+    expect(microphone.setProcessor).not.toHaveBeenCalled();
+    expect(room.localParticipant.publishTrack).toHaveBeenCalledTimes(2);
+  });
+
+  test('The playback status is published while sharing and cleared afterwards.', async () => {
+    const { room, hook, startSharing } = setup({ fileName: 'movie.mp4' });
+    await startSharing();
+    const [published] = room.localParticipant.setAttributes.mock.lastCall!;
+    expect(parseSharedMediaStatus(published)).toMatchObject({ name: 'movie.mp4', paused: true });
+
+    await act(() => hook.result.current.stopSharing());
+    const [cleared] = room.localParticipant.setAttributes.mock.lastCall!;
+    expect(parseSharedMediaStatus(cleared)).toBeUndefined();
+  });
+});
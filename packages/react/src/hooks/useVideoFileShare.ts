@@ -1,169 +1,854 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
 import { useRoomContext } from '../context';
-import { Track, LocalTrackPublication } from 'livekit-client';
+import {
+  ConnectionState,
+  RoomEvent,
+  ScreenSharePresets,
+  Track,
+  LocalTrackPublication,
+  LocalAudioTrack,
+  VideoPresets,
+} from 'livekit-client';
+import type {
+  Participant,
+  TrackPublishOptions,
+  VideoCodec,
+  VideoEncoding,
+  VideoPreset,
+} from 'livekit-client';
+import type {
+  MediaElementCapture,
+  MediaElementCaptureMethod,
+  MediaFileSharePolicy,
+  MicrophoneMixOptions,
+  PlaybackState,
+  SubtitleCue,
+} from '@livekit/components-core';
+import {
+  captureMediaElement,
+  clearSharedMediaStatus,
+  createMicrophoneMixProcessor,
+  encodeSharedMediaStatus,
+  findMediaElementAudioGraph,
+  getActiveSubtitleCues,
+  getMediaElementAudioGraph,
+  log,
+  MediaFileShareTrackName,
+  PLAYBACK_RATE_RANGE,
+  sendCaption,
+  setupPlaybackSync,
+} from '@livekit/components-core';
+import { useCanShareMediaFile, useMediaFileSharer } from './useMediaFileShareAccess';
+import type { ClipRange } from './useClipRange';
+import { getClipDuration } from './useClipRange';
+
+/** Whether the video and audio of a file are shared, or only its audio. */
+export type MediaFileShareKind = 'video' | 'audio';
+
+/** Trade-offs between smoothness, sharpness and bandwidth of the shared video. */
+export type VideoFileSharePreset = 'motion' | 'detail' | 'low-bandwidth';
+
+interface VideoFileSharePresetOptions {
+  label: string;
+  /** Frame rate the file is captured with. */
+  frameRate: number;
+  contentHint: 'motion' | 'detail';
+  videoEncoding: VideoEncoding;
+  /** Lower layers for receivers with less bandwidth, simulcast is disabled if empty. */
+  videoSimulcastLayers: VideoPreset[];
+  videoCodec: VideoCodec;
+  degradationPreference: RTCDegradationPreference;
+}
+
+export const VIDEO_FILE_SHARE_PRESETS: Record<VideoFileSharePreset, VideoFileSharePresetOptions> = {
+  motion: {
+    label: 'Motion',
+    frameRate: 30,
+    contentHint: 'motion',
+    videoEncoding: VideoPresets.h1080.encoding,
+    videoSimulcastLayers: [VideoPresets.h360, VideoPresets.h720],
+    videoCodec: 'vp8',
+    degradationPreference: 'maintain-framerate',
+  },
+  detail: {
+    label: 'Detail',
+    frameRate: 15,
+    contentHint: 'detail',
+    videoEncoding: ScreenSharePresets.h1080fps15.encoding,
+    videoSimulcastLayers: [],
+    videoCodec: 'vp9',
+    degradationPreference: 'maintain-resolution',
+  },
+  'low-bandwidth': {
+    label: 'Low bandwidth',
+    frameRate: 15,
+    contentHint: 'motion',
+    videoEncoding: { maxBitrate: 400_000, maxFramerate: 15 },
+    videoSimulcastLayers: [VideoPresets.h180],
+    videoCodec: 'vp8',
+    degradationPreference: 'balanced',
+  },
+};
 
 interface UseVideoFileShareOptions {
+  /**
+   * In `audio` mode only a single audio track is published. It is routed through a gain node,
+   * which allows to change the level of the shared audio and to fade it in and out.
+   * @defaultValue 'video'
+   */
+  kind?: MediaFileShareKind;
   onError?: (error: Error) => void;
   onTrackPublished?: () => void;
   onTrackUnpublished?: () => void;
+  /**
+   * Broadcast play/pause/seek/rate changes to the room so that remote participants
+   * can follow the playback state of the shared file.
+   * @defaultValue true
+   */
+  syncPlayback?: boolean;
+  /**
+   * Mix the file audio into the published microphone track instead of publishing it as a
+   * separate track, and duck it while the local participant speaks. Falls back to a separate
+   * track if the microphone is not published, the room was created without `webAudioMix` or the
+   * microphone track already has another processor, like a noise filter.
+   * @defaultValue false
+   */
+  mixWithMicrophone?: boolean | MicrophoneMixOptions;
+  /**
+   * Frame rate, encoding, simulcast layers and codec of the shared video.
+   * @defaultValue 'motion'
+   */
+  preset?: VideoFileSharePreset;
+  /** Overrides the publish options of the preset for the video track. */
+  videoPublishOptions?: TrackPublishOptions;
+  /** Cues of a subtitle file, sent to remote participants as captions in sync with playback. */
+  subtitles?: SubtitleCue[];
+  /** Name of the shared file, shown to remote participants along with its playback status. */
+  fileName?: string;
+  /**
+   * Part of the file that is shared. Sharing starts at its in point, and remote participants see
+   * positions and the duration relative to the clip. Keeping playback within the clip is up to
+   * the caller, see `useClipRange`.
+   */
+  clip?: ClipRange;
+  /**
+   * Publish the name, duration, position and paused state of the file as attributes of the local
+   * participant, see `MediaFileShareAttributes`.
+   * @defaultValue true
+   */
+  publishStatus?: boolean;
+  /** Restricts file sharing to participants with a certain attribute, e.g. hosts. */
+  policy?: MediaFileSharePolicy;
+  /**
+   * What `startSharing` does while a remote participant is sharing a file: fail with an error, or
+   * wait until the other share has ended.
+   * @defaultValue 'block'
+   */
+  whenBusy?: 'block' | 'queue';
+}
+
+/**
+ * Lifecycle of a file share:
+ * `idle` → `loading` → `sharing` → `stopping` → `idle`. Any failure ends up in `error`, from where
+ * the share can be started again. A share that is queued behind the one of a remote participant
+ * is `waiting` until it can start loading.
+ */
+export type VideoFileShareState = 'idle' | 'waiting' | 'loading' | 'sharing' | 'stopping' | 'error';
+
+/** @internal */
+export type VideoFileShareLifecycle = { state: VideoFileShareState; error: Error | null };
+
+/** @internal */
+export type VideoFileShareAction =
+  | { msg: 'wait' }
+  | { msg: 'start' }
+  | { msg: 'started' }
+  | { msg: 'stop' }
+  | { msg: 'stopped' }
+  | { msg: 'fail'; error: Error };
+
+/**
+ * Transitions of the file share lifecycle. Actions that are not valid in the current state are
+ * ignored, e.g. a share that is stopped while it is still loading never becomes `sharing`.
+ * @internal
+ */
+export function videoFileShareReducer(
+  lifecycle: VideoFileShareLifecycle,
+  action: VideoFileShareAction,
+): VideoFileShareLifecycle {
+  switch (action.msg) {
+    case 'wait':
+      return lifecycle.state === 'idle' || lifecycle.state === 'error'
+        ? { state: 'waiting', error: null }
+        : lifecycle;
+    case 'start':
+      return lifecycle.state === 'idle' ||
+        lifecycle.state === 'waiting' ||
+        lifecycle.state === 'error'
+        ? { state: 'loading', error: null }
+        : lifecycle;
+    case 'started':
+      return lifecycle.state === 'loading' ? { ...lifecycle, state: 'sharing' } : lifecycle;
+    case 'stop':
+      if (lifecycle.state === 'waiting') {
+        // Nothing has been published yet
+        return { state: 'idle', error: null };
+      }
+      return lifecycle.state === 'idle' || lifecycle.state === 'stopping'
+        ? lifecycle
+        : { ...lifecycle, state: 'stopping' };
+    case 'stopped':
+      return lifecycle.state === 'stopping' ? { state: 'idle', error: null } : lifecycle;
+    case 'fail':
+      return { state: 'error', error: action.error };
+    default:
+      return lifecycle;
+  }
 }
 
 interface UseVideoFileShareReturn {
   videoElement: HTMLVideoElement | null;
+  /** Where the share is in its lifecycle. */
+  state: VideoFileShareState;
+  /** `true` while `state` is `sharing`. */
   isSharing: boolean;
+  /** `true` while `state` is `loading` or `stopping`. */
   isLoading: boolean;
   error: Error | null;
   videoTrack: LocalTrackPublication | null;
   audioTrack: LocalTrackPublication | null;
+  /** Identity of the remote participant that is allowed to drive the local player. */
+  coHostIdentity: string | undefined;
+  /** Level of the shared audio in `audio` mode, where `1` leaves the file untouched. */
+  gain: number;
   setVideoElement: (element: HTMLVideoElement | null) => void;
+  setCoHostIdentity: (identity: string | undefined) => void;
+  setGain: (gain: number) => void;
+  /** Ramps the shared audio from silence up to `gain` in `audio` mode. */
+  fadeIn: (seconds: number) => void;
+  /** Ramps the shared audio down to silence in `audio` mode. */
+  fadeOut: (seconds: number) => void;
   startSharing: () => Promise<void>;
   stopSharing: () => Promise<void>;
+  /**
+   * Call before the video element switches to another file. The published tracks are
+   * bridged until the element captures the new file, so the share stays alive.
+   */
+  prepareSourceChange: () => Promise<void>;
+  /** Whether the local participant is allowed to share a file of this kind. */
+  canShare: boolean;
+  /**
+   * The participant that is currently sharing another file, if any. This is the local participant
+   * if it shares a file of another kind, e.g. audio while this hook shares video.
+   */
+  activeSharer: Participant | undefined;
+  /** Whether the file audio is currently mixed into the microphone track. */
+  isMixingWithMicrophone: boolean;
+  /** How the video element is captured while sharing a video file. */
+  captureMethod: MediaElementCaptureMethod | null;
+}
+
+interface BridgeTrack {
+  track: MediaStreamTrack;
+  dispose: () => void;
+}
+
+/** Holds the last rendered frame of the element while it loads the next file. */
+function createVideoBridgeTrack(videoElement: HTMLVideoElement): BridgeTrack {
+  const canvas = document.createElement('canvas');
+  canvas.width = videoElement.videoWidth || 1280;
+  canvas.height = videoElement.videoHeight || 720;
+  canvas.getContext('2d')?.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
+  const [track] = canvas.captureStream(1).getVideoTracks();
+  return { track, dispose: () => track.stop() };
 }
 
-// Extend HTMLVideoElement to include captureStream
-interface HTMLVideoElementWithCapture extends HTMLVideoElement {
-  captureStream(frameRate?: number): MediaStream;
+/** Produces silence while the element loads the next file. */
+function createAudioBridgeTrack(): BridgeTrack {
+  const audioContext = new AudioContext();
+  const [track] = audioContext.createMediaStreamDestination().stream.getAudioTracks();
+  return {
+    track,
+    dispose: () => {
+      track.stop();
+      audioContext.close();
+    },
+  };
 }
 
-export function useVideoFileShare(
-  options: UseVideoFileShareOptions = {}
-): UseVideoFileShareReturn {
+/** Interval in ms in which the playback state is re-broadcast while sharing. */
+const PLAYBACK_SYNC_HEARTBEAT = 5_000;
+
+/** Interval in ms in which the playback status attributes are refreshed while sharing. */
+const PLAYBACK_STATUS_INTERVAL = 10_000;
+
+export function useVideoFileShare(options: UseVideoFileShareOptions = {}): UseVideoFileShareReturn {
   const room = useRoomContext();
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
-  const [isSharing, setIsSharing] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  
+  const [{ state, error }, dispatch] = useReducer(videoFileShareReducer, {
+    state: 'idle',
+    error: null,
+  });
+  const [coHostIdentity, setCoHostIdentity] = useState<string | undefined>(undefined);
+  const [gain, setGain] = useState(1);
+  const [isMixingWithMicrophone, setIsMixingWithMicrophone] = useState(false);
+  const [captureMethod, setCaptureMethod] = useState<MediaElementCaptureMethod | null>(null);
+
   const videoTrackRef = useRef<LocalTrackPublication | null>(null);
   const audioTrackRef = useRef<LocalTrackPublication | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<MediaElementCapture | null>(null);
+  const mixedMicrophoneTrackRef = useRef<LocalAudioTrack | null>(null);
+  const bridgeTracksRef = useRef<Map<string, BridgeTrack>>(new Map());
+  // Event handlers and the unmount cleanup need the latest state, not the one of their render
+  const stateRef = useRef<VideoFileShareState>(state);
+  stateRef.current = state;
+  // The callbacks are usually passed inline, the share must not restart its effects for them
+  const callbacksRef = useRef(options);
+  callbacksRef.current = options;
+  const isSharing = state === 'sharing';
+  const isLoading = state === 'loading' || state === 'stopping';
 
-  const stopSharing = useCallback(async () => {
-    try {
-      setIsLoading(true);
+  const kind = options.kind ?? 'video';
+  const preset = VIDEO_FILE_SHARE_PRESETS[options.preset ?? 'motion'];
+  const syncPlayback = options.syncPlayback ?? true;
+  const whenBusy = options.whenBusy ?? 'block';
+  const mixOptions =
+    options.mixWithMicrophone === true ? {} : options.mixWithMicrophone || undefined;
+  const playbackSync = useMemo(() => setupPlaybackSync(room), [room]);
+  const canShare = useCanShareMediaFile(kind, options.policy);
+  const mediaFileSharer = useMediaFileSharer();
+  // The tracks of the own share are no reason to wait
+  const activeSharer = state === 'sharing' || state === 'stopping' ? undefined : mediaFileSharer;
+  const clipStart = options.clip?.start ?? 0;
+  const clipEnd = options.clip?.end;
+  /** Position and duration of the element relative to the clip. */
+  const getClipTimes = useCallback(
+    (element: HTMLMediaElement) => {
+      const duration = isFinite(element.duration) ? element.duration : 0;
+      return {
+        position: Math.max(0, element.currentTime - clipStart),
+        duration: getClipDuration({ start: clipStart, end: clipEnd }, duration),
+      };
+    },
+    [clipStart, clipEnd],
+  );
 
-      // Unpublish tracks
-      if (videoTrackRef.current?.track) {
-        await room.localParticipant.unpublishTrack(videoTrackRef.current.track);
-        videoTrackRef.current = null;
-      }
+  const disposeBridgeTrack = useCallback((kind: string) => {
+    bridgeTracksRef.current.get(kind)?.dispose();
+    bridgeTracksRef.current.delete(kind);
+  }, []);
 
-      if (audioTrackRef.current?.track) {
-        await room.localParticipant.unpublishTrack(audioTrackRef.current.track);
-        audioTrackRef.current = null;
+  /** Publishes a captured track, or swaps it into the existing publication of the same kind. */
+  const publishCapturedTrack = useCallback(
+    async (track: MediaStreamTrack) => {
+      const publicationRef = track.kind === 'video' ? videoTrackRef : audioTrackRef;
+      if (track.kind === 'video') {
+        track.contentHint = preset.contentHint;
       }
+      const microphoneTrack = room.localParticipant.getTrackPublication(
+        Track.Source.Microphone,
+      )?.track;
+      if (
+        track.kind === 'audio' &&
+        mixOptions &&
+        !publicationRef.current &&
+        microphoneTrack instanceof LocalAudioTrack &&
+        // Processors of the microphone track need the audio context of `webAudioMix`
+        room.options.webAudioMix &&
+        // Setting a processor destroys the previous one, only that of a previous file may be replaced
+        (!microphoneTrack.getProcessor() || microphoneTrack === mixedMicrophoneTrackRef.current)
+      ) {
+        await microphoneTrack.setProcessor(createMicrophoneMixProcessor(track, mixOptions));
+        mixedMicrophoneTrackRef.current = microphoneTrack;
+        setIsMixingWithMicrophone(true);
+      } else if (publicationRef.current?.track) {
+        await publicationRef.current.track.replaceTrack(track, { userProvidedTrack: true });
+      } else if (track.kind === 'video') {
+        publicationRef.current = await room.localParticipant.publishTrack(track, {
+          name: MediaFileShareTrackName.Video,
+          source: Track.Source.ScreenShare,
+          videoEncoding: preset.videoEncoding,
+          simulcast: preset.videoSimulcastLayers.length > 0,
+          videoSimulcastLayers: preset.videoSimulcastLayers,
+          videoCodec: preset.videoCodec,
+          degradationPreference: preset.degradationPreference,
+          ...options.videoPublishOptions,
+        });
+      } else {
+        publicationRef.current = await room.localParticipant.publishTrack(track, {
+          name: MediaFileShareTrackName.Audio,
+          source: Track.Source.ScreenShareAudio,
+        });
+      }
+      disposeBridgeTrack(track.kind);
+    },
+    [
+      room,
+      disposeBridgeTrack,
+      preset,
+      JSON.stringify(mixOptions),
+      JSON.stringify(options.videoPublishOptions),
+    ],
+  );
+
+  const reportError = useCallback((error: Error) => {
+    dispatch({ msg: 'fail', error });
+    callbacksRef.current.onError?.(error);
+  }, []);
 
-      // Stop all tracks in the stream
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-        streamRef.current = null;
+  /** Unpublishes the tracks of the share and releases everything that was set up for it. */
+  const releaseSharing = useCallback(async () => {
+    // After a disconnect the room has already cleaned up its publications
+    const isConnected = room.state === ConnectionState.Connected;
+    for (const publicationRef of [videoTrackRef, audioTrackRef]) {
+      const track = publicationRef.current?.track;
+      publicationRef.current = null;
+      if (track && isConnected) {
+        await room.localParticipant.unpublishTrack(track);
       }
+    }
+
+    if (mixedMicrophoneTrackRef.current) {
+      const microphoneTrack = mixedMicrophoneTrackRef.current;
+      mixedMicrophoneTrackRef.current = null;
+      setIsMixingWithMicrophone(false);
+      await microphoneTrack.stopProcessor();
+    }
+
+    // Stop all tracks in the stream
+    captureRef.current?.stop();
+    captureRef.current = null;
+    setCaptureMethod(null);
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    }
+    // Detach the published destination, the element stays audible locally
+    const graph = videoElement && findMediaElementAudioGraph(videoElement);
+    if (graph) {
+      graph.gainNode.disconnect();
+      graph.gainNode.connect(graph.context.destination);
+    }
+    Array.from(bridgeTracksRef.current.keys()).forEach(disposeBridgeTrack);
+  }, [videoElement, room, disposeBridgeTrack]);
+
+  const stopSharing = useCallback(async () => {
+    if (stateRef.current === 'idle' || stateRef.current === 'stopping') {
+      return;
+    }
+    if (stateRef.current === 'waiting') {
+      stateRef.current = 'idle';
+      dispatch({ msg: 'stop' });
+      return;
+    }
+    try {
+      stateRef.current = 'stopping';
+      dispatch({ msg: 'stop' });
 
       // Keep video element playing with audio for local playback
       // Don't pause it - just stop publishing
+      await releaseSharing();
+
+      if (syncPlayback && room.state === ConnectionState.Connected) {
+        await playbackSync.sendStop().catch((e) => log.warn('could not send playback stop', e));
+      }
 
-      setIsSharing(false);
-      options.onTrackUnpublished?.();
+      dispatch({ msg: 'stopped' });
+      callbacksRef.current.onTrackUnpublished?.();
     } catch (err) {
-      const error = err instanceof Error ? err : new Error('Failed to stop sharing');
-      setError(error);
-      options.onError?.(error);
-    } finally {
-      setIsLoading(false);
+      reportError(err instanceof Error ? err : new Error('Failed to stop sharing'));
     }
-  }, [videoElement, room, options]);
+  }, [room, syncPlayback, playbackSync, releaseSharing, reportError]);
 
   const startSharing = useCallback(async () => {
     if (!videoElement) {
-      const err = new Error('Video element not ready');
-      setError(err);
-      options.onError?.(err);
+      reportError(new Error('Video element not ready'));
       return;
     }
 
-    if (isSharing) {
+    if (stateRef.current === 'loading' || stateRef.current === 'sharing') {
+      return;
+    }
+
+    if (!canShare) {
+      reportError(new Error('You are not allowed to share files in this room'));
+      return;
+    }
+
+    if (activeSharer) {
+      if (whenBusy === 'queue') {
+        stateRef.current = 'waiting';
+        dispatch({ msg: 'wait' });
+      } else {
+        reportError(
+          new Error(
+            activeSharer.isLocal
+              ? 'You are already sharing a file'
+              : `${activeSharer.name || activeSharer.identity} is already sharing a file`,
+          ),
+        );
+      }
       return;
     }
 
     try {
-      setIsLoading(true);
-      setError(null);
-
-      // // CRITICAL: Unmute and set volume BEFORE playing
-      // videoElement.muted = false;
-      // videoElement.volume = 1.0;
-      
-      // // Ensure video is playing
-      // if (videoElement.paused) {
-      //   await videoElement.play();
-      // }
-
-      // // Small delay to ensure video is actually playing
-      // await new Promise(resolve => setTimeout(resolve, 100));
-
-      // Capture stream from video element (this should NOT prevent local audio playback)
-      const stream = (videoElement as HTMLVideoElementWithCapture).captureStream(30);
-      streamRef.current = stream;
-
-      const videoTracks = stream.getVideoTracks();
-      const audioTracks = stream.getAudioTracks();
-
-      console.log('Video tracks:', videoTracks.length, 'Audio tracks:', audioTracks.length);
-      console.log('Video element muted:', videoElement.muted, 'volume:', videoElement.volume);
-
-      // Publish video track
-      if (videoTracks.length > 0) {
-        const videoTrack = await room.localParticipant.publishTrack(videoTracks[0], {
-          name: 'shared-video-file',
-          source: Track.Source.ScreenShare,
-          simulcast: false,
-        });
-        videoTrackRef.current = videoTrack;
+      stateRef.current = 'loading';
+      dispatch({ msg: 'start' });
+
+      const isOutsideClip =
+        videoElement.currentTime < clipStart ||
+        (clipEnd !== undefined && videoElement.currentTime >= clipEnd);
+      if (isOutsideClip) {
+        videoElement.currentTime = clipStart;
       }
 
-      // Publish audio track if available
-      if (audioTracks.length > 0) {
-        const audioTrack = await room.localParticipant.publishTrack(audioTracks[0], {
-          name: 'shared-video-audio',
-          source: Track.Source.Unknown,
+      let capturedTracks: Array<MediaStreamTrack | undefined>;
+      if (kind === 'audio') {
+        const { context, gainNode } = getMediaElementAudioGraph(videoElement);
+        await context.resume();
+        const destination = context.createMediaStreamDestination();
+        gainNode.connect(destination);
+        streamRef.current = destination.stream;
+        capturedTracks = destination.stream.getAudioTracks();
+      } else {
+        // Capture stream from video element (this should NOT prevent local audio playback)
+        const capture = captureMediaElement(videoElement, preset.frameRate);
+        const { stream } = capture;
+        captureRef.current = capture;
+        streamRef.current = stream;
+        setCaptureMethod(capture.method);
+
+        log.debug('captured video file stream', {
+          method: capture.method,
+          videoTracks: stream.getVideoTracks().length,
+          audioTracks: stream.getAudioTracks().length,
         });
-        audioTrackRef.current = audioTrack;
+
+        // Publish the video track first, followed by the audio track if available
+        capturedTracks = [stream.getVideoTracks()[0], stream.getAudioTracks()[0]];
+      }
+      for (const track of capturedTracks.filter((t): t is MediaStreamTrack => !!t)) {
+        await publishCapturedTrack(track);
+        if (stateRef.current !== 'loading') {
+          // Stopped, disconnected or unmounted while publishing
+          await releaseSharing();
+          return;
+        }
       }
 
-      setIsSharing(true);
-      options.onTrackPublished?.();
+      stateRef.current = 'sharing';
+      dispatch({ msg: 'started' });
+      callbacksRef.current.onTrackPublished?.();
     } catch (err) {
-      const error = err instanceof Error ? err : new Error('Failed to start sharing');
-      setError(error);
-      options.onError?.(error);
-      
       // Cleanup on error
-      console.log('stop sharing 1');
-      await stopSharing();
-    } finally {
-      setIsLoading(false);
-    }
-  }, [videoElement, isSharing, room, options, stopSharing]);
-
-  // Cleanup on unmount
-//   useEffect(() => {
-//     return () => {
-//       if (isSharing) {
-//         console.log('stop sharing 2');
-//         stopSharing();
-//       }
-//     };
-//   }, [isSharing, stopSharing]);
+      await releaseSharing().catch((e) => log.warn('could not clean up file share', e));
+      reportError(err instanceof Error ? err : new Error('Failed to start sharing'));
+    }
+  }, [
+    videoElement,
+    kind,
+    preset,
+    whenBusy,
+    clipStart,
+    clipEnd,
+    canShare,
+    activeSharer,
+    publishCapturedTrack,
+    releaseSharing,
+    reportError,
+  ]);
+
+  // A queued share starts as soon as the remote one has ended
+  useEffect(() => {
+    if (state === 'waiting' && !activeSharer) {
+      startSharing();
+    }
+  }, [state, activeSharer, startSharing]);
+
+  const prepareSourceChange = useCallback(async () => {
+    // A canvas capture keeps its tracks when the element loads another file
+    if (!isSharing || !videoElement || captureMethod === 'canvas') {
+      return;
+    }
+    const publications = [videoTrackRef.current, audioTrackRef.current];
+    for (const publication of publications) {
+      const track = publication?.track;
+      if (!track || bridgeTracksRef.current.has(track.kind)) {
+        continue;
+      }
+      const bridge =
+        track.kind === Track.Kind.Video
+          ? createVideoBridgeTrack(videoElement)
+          : createAudioBridgeTrack();
+      bridgeTracksRef.current.set(track.kind, bridge);
+      await track.replaceTrack(bridge.track, { userProvidedTrack: true });
+    }
+  }, [isSharing, videoElement, captureMethod]);
+
+  // Keep the gain node in sync with the requested level
+  useEffect(() => {
+    const graph = videoElement && findMediaElementAudioGraph(videoElement);
+    if (kind !== 'audio' || !graph) {
+      return;
+    }
+    graph.gainNode.gain.cancelScheduledValues(graph.context.currentTime);
+    graph.gainNode.gain.setValueAtTime(gain, graph.context.currentTime);
+  }, [kind, gain, videoElement, isSharing]);
+
+  const rampGain = useCallback(
+    (from: number, to: number, seconds: number) => {
+      const graph = videoElement && findMediaElementAudioGraph(videoElement);
+      if (kind !== 'audio' || !graph) {
+        return;
+      }
+      const { currentTime } = graph.context;
+      graph.gainNode.gain.cancelScheduledValues(currentTime);
+      graph.gainNode.gain.setValueAtTime(from, currentTime);
+      graph.gainNode.gain.linearRampToValueAtTime(to, currentTime + seconds);
+    },
+    [kind, videoElement],
+  );
+  const fadeIn = useCallback((seconds: number) => rampGain(0, gain, seconds), [rampGain, gain]);
+  const fadeOut = useCallback(
+    (seconds: number) => {
+      const graph = videoElement && findMediaElementAudioGraph(videoElement);
+      rampGain(graph?.gainNode.gain.value ?? gain, 0, seconds);
+    },
+    [rampGain, gain, videoElement],
+  );
+
+  // The element adds new tracks to the captured stream whenever it loads another file
+  useEffect(() => {
+    const stream = streamRef.current;
+    if (!isSharing || !stream) {
+      return;
+    }
+    const onAddTrack = (event: MediaStreamTrackEvent) => {
+      publishCapturedTrack(event.track).catch(async (err) => {
+        await releaseSharing().catch((e) => log.warn('could not clean up file share', e));
+        reportError(err instanceof Error ? err : new Error('Failed to switch shared file'));
+      });
+    };
+    stream.addEventListener('addtrack', onAddTrack);
+    return () => stream.removeEventListener('addtrack', onAddTrack);
+  }, [isSharing, publishCapturedTrack, releaseSharing, reportError]);
+
+  // Swapping the file of the element ends the captured tracks, bridge them in case the caller did
+  // not call `prepareSourceChange` beforehand
+  useEffect(() => {
+    if (!isSharing || !videoElement) {
+      return;
+    }
+    const onEmptied = () => {
+      prepareSourceChange().catch((e) => log.warn('could not bridge the shared file', e));
+    };
+    videoElement.addEventListener('emptied', onEmptied);
+    return () => videoElement.removeEventListener('emptied', onEmptied);
+  }, [isSharing, videoElement, prepareSourceChange]);
+
+  // End the share if the room goes away, or if its tracks end and get unpublished by the SDK
+  useEffect(() => {
+    const onDisconnected = () => {
+      stopSharing();
+    };
+    const onLocalTrackUnpublished = (publication: LocalTrackPublication) => {
+      if (publication !== videoTrackRef.current && publication !== audioTrackRef.current) {
+        return;
+      }
+      log.debug('file share track was unpublished, stopping the share', {
+        trackName: publication.trackName,
+      });
+      if (publication === videoTrackRef.current) {
+        videoTrackRef.current = null;
+      } else {
+        audioTrackRef.current = null;
+      }
+      stopSharing();
+    };
+    room.on(RoomEvent.Disconnected, onDisconnected);
+    room.on(RoomEvent.LocalTrackUnpublished, onLocalTrackUnpublished);
+    return () => {
+      room.off(RoomEvent.Disconnected, onDisconnected);
+      room.off(RoomEvent.LocalTrackUnpublished, onLocalTrackUnpublished);
+    };
+  }, [room, stopSharing]);
+
+  // Broadcast the playback state while sharing and apply commands of the co-host
+  useEffect(() => {
+    if (!syncPlayback || !isSharing || !videoElement) {
+      return;
+    }
+
+    const getState = (): PlaybackState => ({
+      ...getClipTimes(videoElement),
+      paused: videoElement.paused,
+      rate: videoElement.playbackRate,
+      coHostIdentity,
+    });
+    const broadcast = (destinationIdentities?: string[]) => {
+      playbackSync.sendState(getState(), destinationIdentities).catch((e) => {
+        log.warn('could not broadcast playback state', e);
+      });
+    };
+    const onBroadcastEvent = () => broadcast();
+    const onParticipantConnected = (participant: { identity: string }) =>
+      broadcast([participant.identity]);
+
+    const playbackEvents = ['play', 'pause', 'seeked', 'ratechange', 'ended'] as const;
+    playbackEvents.forEach((evt) => videoElement.addEventListener(evt, onBroadcastEvent));
+    room.on(RoomEvent.ParticipantConnected, onParticipantConnected);
+    const heartbeat = setInterval(onBroadcastEvent, PLAYBACK_SYNC_HEARTBEAT);
+
+    const subscription = playbackSync.commandObservable.subscribe(({ command, from }) => {
+      if (!coHostIdentity || from.identity !== coHostIdentity) {
+        log.warn(`ignoring playback command from ${from.identity}, who is not the co-host`);
+        return;
+      }
+      switch (command.action) {
+        case 'play':
+          videoElement.play().catch((e) => log.warn('could not resume playback', e));
+          break;
+        case 'pause':
+          videoElement.pause();
+          break;
+        case 'seek': {
+          const { duration } = getClipTimes(videoElement);
+          const position = Math.max(0, Math.min(command.position, duration || command.position));
+          videoElement.currentTime = clipStart + position;
+          break;
+        }
+        case 'rate':
+          videoElement.playbackRate = Math.min(
+            Math.max(command.rate, PLAYBACK_RATE_RANGE.min),
+            PLAYBACK_RATE_RANGE.max,
+          );
+          break;
+      }
+    });
+
+    // Let everybody know about the current state right away
+    broadcast();
+
+    return () => {
+      playbackEvents.forEach((evt) => videoElement.removeEventListener(evt, onBroadcastEvent));
+      room.off(RoomEvent.ParticipantConnected, onParticipantConnected);
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+    };
+  }, [
+    syncPlayback,
+    isSharing,
+    videoElement,
+    coHostIdentity,
+    room,
+    playbackSync,
+    clipStart,
+    getClipTimes,
+  ]);
+
+  // Send the subtitles of the shared file as captions
+  const { subtitles } = options;
+  useEffect(() => {
+    if (!isSharing || !videoElement || !subtitles?.length) {
+      return;
+    }
+    let caption = '';
+    const updateCaption = () => {
+      const text = getActiveSubtitleCues(subtitles, videoElement.currentTime)
+        .map((cue) => cue.text)
+        .join('\n');
+      if (text !== caption) {
+        caption = text;
+        sendCaption(room, text).catch((e) => log.warn('could not send caption', e));
+      }
+    };
+    // Participants joining mid-cue only get the caption once it changes otherwise
+    const onParticipantConnected = (participant: { identity: string }) => {
+      if (caption) {
+        sendCaption(room, caption, { destinationIdentities: [participant.identity] }).catch((e) =>
+          log.warn('could not send caption', e),
+        );
+      }
+    };
+    const captionEvents = ['timeupdate', 'seeked'] as const;
+    captionEvents.forEach((evt) => videoElement.addEventListener(evt, updateCaption));
+    room.on(RoomEvent.ParticipantConnected, onParticipantConnected);
+    updateCaption();
+
+    return () => {
+      captionEvents.forEach((evt) => videoElement.removeEventListener(evt, updateCaption));
+      room.off(RoomEvent.ParticipantConnected, onParticipantConnected);
+      if (caption) {
+        sendCaption(room, '').catch((e) => log.warn('could not clear caption', e));
+      }
+    };
+  }, [isSharing, videoElement, subtitles, room]);
+
+  // Publish the playback status as participant attributes
+  const publishStatus = options.publishStatus ?? true;
+  const { fileName } = options;
+  useEffect(() => {
+    if (!publishStatus || !isSharing || !videoElement) {
+      return;
+    }
+    const updateStatus = () => {
+      const attributes = encodeSharedMediaStatus({
+        ...getClipTimes(videoElement),
+        name: fileName,
+        paused: videoElement.paused,
+        rate: videoElement.playbackRate,
+      });
+      room.localParticipant
+        .setAttributes(attributes)
+        .catch((e) => log.warn('could not publish playback status', e));
+    };
+    const statusEvents = ['play', 'pause', 'seeked', 'ratechange', 'durationchange'] as const;
+    statusEvents.forEach((evt) => videoElement.addEventListener(evt, updateStatus));
+    const interval = setInterval(updateStatus, PLAYBACK_STATUS_INTERVAL);
+    updateStatus();
+
+    return () => {
+      statusEvents.forEach((evt) => videoElement.removeEventListener(evt, updateStatus));
+      clearInterval(interval);
+      if (room.state === ConnectionState.Connected) {
+        room.localParticipant
+          .setAttributes(clearSharedMediaStatus())
+          .catch((e) => log.warn('could not clear playback status', e));
+      }
+    };
+  }, [publishStatus, isSharing, videoElement, fileName, room, getClipTimes]);
+
+  // Stop sharing on unmount
+  const stopSharingRef = useRef(stopSharing);
+  stopSharingRef.current = stopSharing;
+  useEffect(() => {
+    return () => {
+      stopSharingRef.current();
+    };
+  }, []);
 
   return {
     videoElement,
+    state,
     isSharing,
     isLoading,
     error,
     videoTrack: videoTrackRef.current,
     audioTrack: audioTrackRef.current,
+    coHostIdentity,
+    gain,
     setVideoElement,
+    setCoHostIdentity,
+    setGain,
+    fadeIn,
+    fadeOut,
     startSharing,
     stopSharing,
+    prepareSourceChange,
+    canShare,
+    activeSharer,
+    isMixingWithMicrophone,
+    captureMethod,
   };
-}
\ No newline at end of file
+}
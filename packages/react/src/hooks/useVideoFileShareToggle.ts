@@ -1,9 +1,12 @@
 import * as React from 'react';
+import type { MediaFileShareKind } from './useVideoFileShare';
 
 // This will be provided by VideoConference component
 export const VideoFileShareContext = React.createContext<{
   isOpen: boolean;
-  toggle: () => void;
+  /** Which of the file share modals is open. */
+  kind: MediaFileShareKind;
+  toggle: (kind?: MediaFileShareKind) => void;
 } | null>(null);
 
 export function useVideoFileShareContext() {
@@ -16,9 +19,11 @@ export function useVideoFileShareContext() {
 
 export interface UseVideoFileShareToggleProps {
   props: React.ButtonHTMLAttributes<HTMLButtonElement>;
+  /** @defaultValue 'video' */
+  kind?: MediaFileShareKind;
 }
 
-export function useVideoFileShareToggle({ props }: UseVideoFileShareToggleProps) {
+export function useVideoFileShareToggle({ props, kind = 'video' }: UseVideoFileShareToggleProps) {
   const videoFileShareContext = useVideoFileShareContext();
 
   const mergedProps = React.useMemo(() => {
@@ -26,10 +31,10 @@ export function useVideoFileShareToggle({ props }: UseVideoFileShareToggleProps)
       ...props,
       onClick: (e: React.MouseEvent<HTMLButtonElement>) => {
         props.onClick?.(e);
-        videoFileShareContext.toggle();
+        videoFileShareContext.toggle(kind);
       },
     };
-  }, [props, videoFileShareContext]);
+  }, [props, kind, videoFileShareContext]);
 
   return { mergedProps };
-}
\ No newline at end of file
+}
@@ -1,16 +1,91 @@
-import { type ChatMessage, type ChatOptions } from '@livekit/components-core';
+import {
+  type ChatOptions,
+  type ChatSearchQuery,
+  ChatMessageRejectedError,
+  ChatRateLimitError,
+  type MentionQuery,
+  type ReceivedChatMessage,
+  filterChatConversation,
+  filterChatMessages,
+  getChatMutedIdentities,
+  getChatConversationParticipants,
+  getChatConversationPartner,
+  getMentionQuery,
+  getReplyToId,
+  groupChatMessagesByThread,
+  insertMention,
+  setChatMuted,
+  isChatMessageMentioning,
+  isChatModerator,
+  isChatSearchActive,
+  log,
+} from '@livekit/components-core';
 import * as React from 'react';
-import { useMaybeLayoutContext } from '../context';
+import type { Participant } from 'livekit-client';
+import { useEnsureRoom, useMaybeLayoutContext } from '../context';
 import { cloneSingleChild } from '../utils';
 import type { MessageFormatter } from '../components/ChatEntry';
-import { ChatEntry } from '../components/ChatEntry';
+import { ChatEntry, formatChatMessage } from '../components/ChatEntry';
 import { useChat } from '../hooks/useChat';
+import { useChatReadState } from '../hooks/useChatReadState';
+import { useLocalParticipant } from '../hooks/useLocalParticipant';
+import { useParticipantAttributes } from '../hooks/useParticipantAttributes';
+import { useRemoteParticipants } from '../hooks/useRemoteParticipants';
+import { useTypingParticipants } from '../hooks/useTypingParticipants';
 import { ChatToggle } from '../components';
 import ChatCloseIcon from '../assets/icons/ChatCloseIcon';
 
 /** @public */
 export interface ChatProps extends React.HTMLAttributes<HTMLDivElement>, ChatOptions {
+  /**
+   * Formats the message bodies.
+   * @defaultValue formatChatMessage
+   */
   messageFormatter?: MessageFormatter;
+  /**
+   * Shows replies in a thread view instead of inline with a quote of the message they reply to.
+   * @defaultValue false
+   */
+  showThreads?: boolean;
+  /**
+   * Lets the senders know once their messages were scrolled into view.
+   * @defaultValue false
+   */
+  sendReadReceipts?: boolean;
+  /**
+   * Called for each new message that mentions the local participant, also while the chat is
+   * hidden.
+   */
+  onMention?: (message: ReceivedChatMessage) => void;
+}
+
+function formatTypingParticipants(participants: Participant[]) {
+  const names = participants.map((p) => p.name || p.identity);
+  if (names.length === 1) {
+    return `${names[0]} is typing…`;
+  } else if (names.length === 2) {
+    return `${names[0]} and ${names[1]} are typing…`;
+  }
+  return 'Several people are typing…';
+}
+
+/** Converts the value of a date input to the timestamp of the start or end of that day. */
+function parseDateInput(value: string, endOfDay: boolean) {
+  return value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00'}`).getTime() : undefined;
+}
+
+/** Counts down the seconds until the timestamp, `0` once it passed or if it is unset. */
+function useCooldownSeconds(until: number) {
+  const [now, setNow] = React.useState(Date.now);
+  React.useEffect(() => {
+    setNow(Date.now());
+    if (until === 0) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [until]);
+  return Math.max(0, Math.ceil((until - now) / 1000));
 }
 
 /**
@@ -19,7 +94,7 @@ export interface ChatProps extends React.HTMLAttributes<HTMLDivElement>, ChatOpt
  *
  * @remarks
  * - Only users who are in the room at the time of dispatch will receive messages
- * - Message history is not persisted between sessions
+ * - Message history is only persisted between sessions if a `historyStore` is passed
  * - Requires `@livekit/components-styles` to be imported for styling
  *
  * @example
@@ -40,28 +115,217 @@ export interface ChatProps extends React.HTMLAttributes<HTMLDivElement>, ChatOpt
  * @public
  */
 export function Chat({
-  messageFormatter,
+  messageFormatter = formatChatMessage,
   messageDecoder,
   messageEncoder,
   channelTopic,
+  historyStore,
+  maxAttachmentSize,
+  inboundMiddleware,
+  outboundMiddleware,
+  sendRateLimit,
+  inboundRateLimit,
+  showThreads = false,
+  sendReadReceipts = false,
+  onMention,
   ...props
 }: ChatProps) {
   const ulRef = React.useRef<HTMLUListElement>(null);
   const inputRef = React.useRef<HTMLInputElement>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   const chatOptions: ChatOptions = React.useMemo(() => {
-    return { messageDecoder, messageEncoder, channelTopic };
-  }, [messageDecoder, messageEncoder, channelTopic]);
+    return {
+      messageDecoder,
+      messageEncoder,
+      channelTopic,
+      historyStore,
+      maxAttachmentSize,
+      inboundMiddleware,
+      outboundMiddleware,
+      sendRateLimit,
+      inboundRateLimit,
+    };
+  }, [
+    messageDecoder,
+    messageEncoder,
+    channelTopic,
+    historyStore,
+    maxAttachmentSize,
+    inboundMiddleware,
+    outboundMiddleware,
+    sendRateLimit,
+    inboundRateLimit,
+  ]);
+
+  const {
+    chatMessages,
+    send,
+    reply,
+    edit,
+    delete: deleteMessage,
+    react,
+    cancelAttachment,
+    threads,
+    getThread,
+    isSending,
+    rateLimitedUntil,
+  } = useChat(chatOptions);
+  const { localParticipant } = useLocalParticipant();
+  const remoteParticipants = useRemoteParticipants();
+  const room = useEnsureRoom();
+  // Mutes are attributes of the moderators, remote participants update on attribute changes
+  useParticipantAttributes({ participant: localParticipant });
+  const isModerator = isChatModerator(localParticipant);
+  const mutedIdentities = getChatMutedIdentities(room);
+  const isMuted = mutedIdentities.has(localParticipant.identity);
+  const [replyTo, setReplyTo] = React.useState<ReceivedChatMessage>();
+  const [threadId, setThreadId] = React.useState<string>();
+  const thread = showThreads && threadId ? getThread(threadId) : undefined;
+  // Identity of the participant private messages are exchanged with, all messages are shown if unset
+  const [conversation, setConversation] = React.useState<string>();
+  const conversationPartner = remoteParticipants.find((p) => p.identity === conversation);
+  const [pendingFiles, setPendingFiles] = React.useState<File[]>([]);
+  const [formError, setFormError] = React.useState<string>();
+  const cooldown = useCooldownSeconds(rateLimitedUntil);
+  // While the send rate limit cools down, the next message can already be typed
+  const isSendingMessage = isSending && cooldown === 0;
+  const [isDragOver, setIsDragOver] = React.useState(false);
+  const [mentionQuery, setMentionQuery] = React.useState<MentionQuery>();
+  const [mentionIndex, setMentionIndex] = React.useState(0);
+  const mentionCandidates = React.useMemo(() => {
+    if (!mentionQuery) {
+      return [];
+    }
+    const query = mentionQuery.query.toLowerCase();
+    return remoteParticipants
+      .filter(
+        (p) =>
+          p.identity.toLowerCase().startsWith(query) || p.name?.toLowerCase().startsWith(query),
+      )
+      .slice(0, 5);
+  }, [mentionQuery, remoteParticipants]);
+
+  const visibleMessages = React.useMemo(
+    () =>
+      conversation
+        ? filterChatConversation(chatMessages, localParticipant.identity, conversation)
+        : chatMessages,
+    [chatMessages, localParticipant.identity, conversation],
+  );
+  const visibleThreads = React.useMemo(
+    () => (conversation ? groupChatMessagesByThread(visibleMessages) : threads),
+    [conversation, visibleMessages, threads],
+  );
+  const [showSearch, setShowSearch] = React.useState(false);
+  const [search, setSearch] = React.useState({ text: '', from: '', afterDate: '', beforeDate: '' });
+  // Index of the selected search result, the latest one is selected if negative
+  const [searchIndex, setSearchIndex] = React.useState(-1);
+  const searchQuery: ChatSearchQuery = React.useMemo(
+    () => ({
+      text: search.text,
+      from: search.from,
+      after: parseDateInput(search.afterDate, false),
+      before: parseDateInput(search.beforeDate, true),
+    }),
+    [search],
+  );
+  const isSearching = showSearch && isChatSearchActive(searchQuery);
+  const searchResults = React.useMemo(
+    () => (isSearching ? filterChatMessages(visibleMessages, searchQuery) : []),
+    [isSearching, visibleMessages, searchQuery],
+  );
+  const currentResultIndex =
+    searchIndex < 0 ? searchResults.length - 1 : Math.min(searchIndex, searchResults.length - 1);
+  const currentResult = searchResults[currentResultIndex];
+  const senders = React.useMemo(() => {
+    const byIdentity = new Map<string, Participant>();
+    visibleMessages.forEach(({ from }) => from && byIdentity.set(from.identity, from));
+    return [...byIdentity.values()];
+  }, [visibleMessages]);
+
+  const messagesById = React.useMemo(
+    () => new Map(chatMessages.map((msg) => [msg.id, msg])),
+    [chatMessages],
+  );
+  const replyCounts = React.useMemo(
+    () => new Map(visibleThreads.map(({ root, replies }) => [root.id, replies.length])),
+    [visibleThreads],
+  );
+
+  const { typingParticipants, sendTyping, sendStopTyping } = useTypingParticipants({
+    topic: channelTopic && `${channelTopic}.typing`,
+  });
+  const typingDestination = conversation ? [conversation] : undefined;
 
-  const { chatMessages, send, isSending } = useChat(chatOptions);
+  React.useEffect(() => {
+    if (conversation && !conversationPartner) {
+      setConversation(undefined);
+    }
+  }, [conversation, conversationPartner]);
 
   const layoutContext = useMaybeLayoutContext();
-  const lastReadMsgAt = React.useRef<ChatMessage['timestamp']>(0);
+  const { markAsRead, getSeenBy, getUnreadCount } = useChatReadState({
+    topic: channelTopic && `${channelTopic}.read`,
+    sendReceipts: sendReadReceipts,
+  });
+  const unreadCount = getUnreadCount(chatMessages);
+  const mentions = React.useMemo(
+    () => chatMessages.filter((msg) => isChatMessageMentioning(msg, localParticipant.identity)),
+    [chatMessages, localParticipant.identity],
+  );
+  const unreadMentionCount = getUnreadCount(mentions);
+  // Only mentions sent after the chat was set up are announced, not those loaded from history
+  const [mountedAt] = React.useState(Date.now);
+  const announcedMentions = React.useRef(new Set<string>());
+  const lastLocalMessage = visibleMessages.findLast((msg) => msg.from?.isLocal);
+
+  function addFiles(files: FileList | null) {
+    const added = Array.from(files ?? []);
+    const tooLarge = added.filter(
+      (file) => maxAttachmentSize !== undefined && file.size > maxAttachmentSize,
+    );
+    setFormError(
+      tooLarge.length > 0
+        ? `${tooLarge.map((file) => file.name).join(', ')} exceeds the size limit`
+        : undefined,
+    );
+    setPendingFiles((pending) => [...pending, ...added.filter((file) => !tooLarge.includes(file))]);
+  }
 
   async function handleSubmit(event: React.FormEvent) {
     event.preventDefault();
-    if (inputRef.current && inputRef.current.value.trim() !== '') {
-      await send(inputRef.current.value);
+    if (inputRef.current && (inputRef.current.value.trim() !== '' || pendingFiles.length > 0)) {
+      const parent = thread ? thread.root : replyTo;
+      // Replies to private messages stay private
+      const recipient =
+        conversation ?? (parent && getChatConversationPartner(parent, localParticipant.identity));
+      const options = {
+        destinationIdentities: recipient ? [recipient] : undefined,
+        attachments: pendingFiles.length > 0 ? pendingFiles : undefined,
+      };
+      try {
+        if (parent) {
+          await reply(parent, inputRef.current.value, options);
+        } else {
+          await send(inputRef.current.value, options);
+        }
+      } catch (error) {
+        if (error instanceof ChatMessageRejectedError) {
+          setFormError(`Not sent, ${error.reason}`);
+          return;
+        }
+        if (error instanceof ChatRateLimitError) {
+          setFormError(`Not sent, wait ${Math.ceil(error.retryAfter / 1000)}s`);
+          return;
+        }
+        throw error;
+      }
+      setReplyTo(undefined);
+      setPendingFiles([]);
+      setFormError(undefined);
+      sendStopTyping(typingDestination);
+      setMentionQuery(undefined);
       inputRef.current.value = '';
       inputRef.current.focus();
     }
@@ -71,36 +335,208 @@ export function Chat({
     if (ulRef) {
       ulRef.current?.scrollTo({ top: ulRef.current.scrollHeight });
     }
-  }, [ulRef, chatMessages]);
+  }, [ulRef, chatMessages, threadId, conversation]);
 
   React.useEffect(() => {
-    if (!layoutContext || chatMessages.length === 0) {
+    ulRef.current
+      ?.querySelector('[data-lk-search-current="true"]')
+      ?.scrollIntoView?.({ block: 'nearest' });
+  }, [currentResult]);
+
+  function updateSearch(update: Partial<typeof search>) {
+    setSearch((previous) => ({ ...previous, ...update }));
+    setSearchIndex(-1);
+  }
+
+  function stepSearchResult(step: number) {
+    setSearchIndex(Math.max(0, Math.min(currentResultIndex + step, searchResults.length - 1)));
+  }
+
+  const isChatShown = layoutContext?.widget.state?.showChat ?? true;
+  // Messages count as read once they were scrolled into view
+  React.useEffect(() => {
+    const list = ulRef.current;
+    if (!list || !isChatShown) {
+      return;
+    }
+    // Receipts for private messages stay within their conversation
+    const markAsReadUpTo = (timestamp: number) => {
+      const message = visibleMessages.find((msg) => msg.timestamp === timestamp);
+      const destinations =
+        message && getChatConversationParticipants(message, localParticipant.identity);
+      markAsRead(timestamp, destinations).catch((error) =>
+        log.warn('could not send chat read receipt', error),
+      );
+    };
+    const entries = list.querySelectorAll<HTMLElement>('[data-lk-timestamp]');
+    if (typeof IntersectionObserver === 'undefined' || entries.length === 0) {
+      const lastMessage = visibleMessages[visibleMessages.length - 1];
+      if (lastMessage) {
+        markAsReadUpTo(lastMessage.timestamp);
+      }
       return;
     }
+    const observer = new IntersectionObserver(
+      (observed) => {
+        const timestamps = observed
+          .filter((entry) => entry.isIntersecting)
+          .map((entry) => Number((entry.target as HTMLElement).dataset.lkTimestamp));
+        if (timestamps.length > 0) {
+          markAsReadUpTo(Math.max(...timestamps));
+        }
+      },
+      { root: list, threshold: 0.5 },
+    );
+    entries.forEach((entry) => observer.observe(entry));
+    return () => observer.disconnect();
+  }, [visibleMessages, threadId, isChatShown, markAsRead, localParticipant.identity]);
 
+  React.useEffect(() => {
+    if (!layoutContext) {
+      return;
+    }
+    const { widget } = layoutContext;
     if (
-      layoutContext.widget.state?.showChat &&
-      chatMessages.length > 0 &&
-      lastReadMsgAt.current !== chatMessages[chatMessages.length - 1]?.timestamp
+      widget.state?.unreadMessages !== unreadCount ||
+      (widget.state?.unreadMentions ?? 0) !== unreadMentionCount
     ) {
-      lastReadMsgAt.current = chatMessages[chatMessages.length - 1]?.timestamp;
-      return;
+      widget.dispatch?.({ msg: 'unread_msg', count: unreadCount, mentions: unreadMentionCount });
     }
+  }, [unreadCount, unreadMentionCount, layoutContext?.widget]);
 
-    const unreadMessageCount = chatMessages.filter(
-      (msg) => !lastReadMsgAt.current || msg.timestamp > lastReadMsgAt.current,
-    ).length;
+  React.useEffect(() => {
+    mentions.forEach((msg) => {
+      if (msg.timestamp >= mountedAt && !announcedMentions.current.has(msg.id)) {
+        announcedMentions.current.add(msg.id);
+        onMention?.(msg);
+      }
+    });
+  }, [mentions, mountedAt, onMention]);
 
-    const { widget } = layoutContext;
-    if (unreadMessageCount > 0 && widget.state?.unreadMessages !== unreadMessageCount) {
-      widget.dispatch?.({ msg: 'unread_msg', count: unreadMessageCount });
+  function completeMention(participant: Participant) {
+    const input = inputRef.current;
+    if (!input || !mentionQuery) {
+      return;
     }
-  }, [chatMessages, layoutContext?.widget]);
+    const { text, caret } = insertMention(input.value, mentionQuery, participant.identity);
+    input.value = text;
+    input.focus();
+    input.setSelectionRange(caret, caret);
+    setMentionQuery(undefined);
+  }
+
+  function handleInputKeyDown(ev: React.KeyboardEvent<HTMLInputElement>) {
+    ev.stopPropagation();
+    if (mentionCandidates.length === 0) {
+      return;
+    }
+    if (ev.key === 'ArrowDown' || ev.key === 'ArrowUp') {
+      ev.preventDefault();
+      const step = ev.key === 'ArrowDown' ? 1 : -1;
+      setMentionIndex((idx) => (idx + step + mentionCandidates.length) % mentionCandidates.length);
+    } else if (ev.key === 'Enter' || ev.key === 'Tab') {
+      ev.preventDefault();
+      completeMention(mentionCandidates[Math.min(mentionIndex, mentionCandidates.length - 1)]);
+    } else if (ev.key === 'Escape') {
+      setMentionQuery(undefined);
+    }
+  }
+
+  function renderEntry(msg: ReceivedChatMessage, idx: number, allMsg: ReceivedChatMessage[]) {
+    const hideName = idx >= 1 && allMsg[idx - 1].from === msg.from;
+    // If the time delta between two messages is bigger than 60s show timestamp.
+    const hideTimestamp = idx >= 1 && msg.timestamp - allMsg[idx - 1].timestamp < 60_000;
+    const replyToId = getReplyToId(msg);
+    // Within a thread, only replies to other replies are quoted
+    const quoted = replyToId && (!showThreads || replyToId !== thread?.root.id);
+
+    return (
+      <ChatEntry
+        key={msg.id ?? idx}
+        data-lk-timestamp={msg.timestamp}
+        hideName={hideName}
+        hideTimestamp={hideName === false ? false : hideTimestamp} // If we show the name always show the timestamp as well.
+        entry={msg}
+        messageFormatter={messageFormatter}
+        onEdit={(entry, message) =>
+          edit(entry.id, message, { destinationIdentities: entry.recipientIdentities }).catch(
+            (error) => {
+              if (error instanceof ChatMessageRejectedError) {
+                setFormError(`Not edited, ${error.reason}`);
+              } else if (error instanceof ChatRateLimitError) {
+                setFormError(`Not edited, wait ${Math.ceil(error.retryAfter / 1000)}s`);
+              } else {
+                log.warn('could not edit chat message', error);
+                setFormError('Could not edit the message');
+              }
+            },
+          )
+        }
+        onDelete={(entry) =>
+          deleteMessage(entry.id, { destinationIdentities: entry.recipientIdentities }).catch(
+            (error) => {
+              log.warn('could not delete chat message', error);
+              setFormError('Could not delete the message');
+            },
+          )
+        }
+        onReact={(entry, emoji) =>
+          react(entry, emoji).catch((error) => {
+            log.warn('could not send chat reaction', error);
+            setFormError('Could not send the reaction');
+          })
+        }
+        replyTo={quoted ? messagesById.get(replyToId) : undefined}
+        onReply={(entry) => {
+          if (showThreads) {
+            setThreadId(entry.id);
+          } else {
+            setReplyTo(entry);
+          }
+          inputRef.current?.focus();
+        }}
+        replyCount={thread ? 0 : replyCounts.get(msg.id)}
+        seenBy={msg === lastLocalMessage ? getSeenBy(msg) : undefined}
+        onShowThread={showThreads ? (entry) => setThreadId(entry.id) : undefined}
+        onCancelAttachment={(attachment) => cancelAttachment(attachment.id)}
+        highlight={isSearching ? searchQuery.text : undefined}
+        data-lk-search-current={isSearching ? msg === currentResult : undefined}
+        onToggleMute={
+          isModerator
+            ? ({ from }) => {
+                if (!from) {
+                  return;
+                }
+                const muted = !mutedIdentities.has(from.identity);
+                setChatMuted(room, from.identity, muted).catch((error) => {
+                  log.warn('could not update chat mutes', error);
+                  const name = from.name || from.identity;
+                  setFormError(`Could not ${muted ? 'mute' : 'unmute'} ${name}`);
+                });
+              }
+            : undefined
+        }
+        isSenderMuted={!!msg.from && mutedIdentities.has(msg.from.identity)}
+      />
+    );
+  }
 
   return (
-    <div {...props} className="lk-chat">
+    <div {...props} className="lk-chat" data-lk-searching={showSearch}>
       <div className="lk-chat-header">
-        Messages
+        <button
+          className="lk-button lk-chat-search-toggle"
+          aria-pressed={showSearch}
+          onClick={() => {
+            setShowSearch((show) => !show);
+            setThreadId(undefined);
+          }}
+        >
+          Search
+        </button>
+        {conversationPartner
+          ? `Private chat with ${conversationPartner.name || conversationPartner.identity}`
+          : 'Messages'}
         {layoutContext && (
           <ChatToggle className="lk-close-button">
             <ChatCloseIcon />
@@ -108,44 +544,244 @@ export function Chat({
         )}
       </div>
 
-      <ul className="lk-list lk-chat-messages" ref={ulRef}>
-        {props.children
-          ? chatMessages.map((msg, idx) =>
-              cloneSingleChild(props.children, {
-                entry: msg,
-                key: msg.id ?? idx,
-                messageFormatter,
-              }),
-            )
-          : chatMessages.map((msg, idx, allMsg) => {
-              const hideName = idx >= 1 && allMsg[idx - 1].from === msg.from;
-              // If the time delta between two messages is bigger than 60s show timestamp.
-              const hideTimestamp = idx >= 1 && msg.timestamp - allMsg[idx - 1].timestamp < 60_000;
-
-              return (
-                <ChatEntry
-                  key={msg.id ?? idx}
-                  hideName={hideName}
-                  hideTimestamp={hideName === false ? false : hideTimestamp} // If we show the name always show the timestamp as well.
-                  entry={msg}
-                  messageFormatter={messageFormatter}
-                />
-              );
-            })}
-      </ul>
-      <form className="lk-chat-form" onSubmit={handleSubmit}>
+      {showSearch && (
+        <div className="lk-chat-search" role="search">
+          <input
+            className="lk-form-control lk-chat-search-input"
+            type="search"
+            placeholder="Search messages"
+            aria-label="Search messages"
+            autoFocus
+            value={search.text}
+            onChange={(ev) => updateSearch({ text: ev.target.value })}
+            onKeyDown={(ev) => {
+              ev.stopPropagation();
+              if (ev.key === 'Enter') {
+                ev.preventDefault();
+                stepSearchResult(ev.shiftKey ? 1 : -1);
+              } else if (ev.key === 'Escape') {
+                setShowSearch(false);
+              }
+            }}
+            onKeyUp={(ev) => ev.stopPropagation()}
+          />
+          <select
+            className="lk-form-control"
+            aria-label="Sender"
+            value={search.from}
+            onChange={(ev) => updateSearch({ from: ev.target.value })}
+          >
+            <option value="">Anyone</option>
+            {senders.map((sender) => (
+              <option key={sender.identity} value={sender.identity}>
+                {sender.name || sender.identity}
+              </option>
+            ))}
+          </select>
+          <input
+            className="lk-form-control"
+            type="date"
+            aria-label="From date"
+            value={search.afterDate}
+            onChange={(ev) => updateSearch({ afterDate: ev.target.value })}
+          />
+          <input
+            className="lk-form-control"
+            type="date"
+            aria-label="To date"
+            value={search.beforeDate}
+            onChange={(ev) => updateSearch({ beforeDate: ev.target.value })}
+          />
+          <span className="lk-chat-search-count" aria-live="polite">
+            {isSearching &&
+              (searchResults.length > 0
+                ? `${currentResultIndex + 1} of ${searchResults.length}`
+                : 'No results')}
+          </span>
+          <button
+            className="lk-button"
+            aria-label="Previous result"
+            disabled={currentResultIndex <= 0}
+            onClick={() => stepSearchResult(-1)}
+          >
+            ↑
+          </button>
+          <button
+            className="lk-button"
+            aria-label="Next result"
+            disabled={currentResultIndex >= searchResults.length - 1}
+            onClick={() => stepSearchResult(1)}
+          >
+            ↓
+          </button>
+        </div>
+      )}
+      {thread ? (
+        <div className="lk-chat-thread">
+          <div className="lk-chat-thread-header">
+            <button className="lk-button" onClick={() => setThreadId(undefined)}>
+              Back
+            </button>
+            Thread
+          </div>
+          <ul className="lk-list lk-chat-messages" ref={ulRef}>
+            {[thread.root, ...thread.replies].map(renderEntry)}
+          </ul>
+        </div>
+      ) : (
+        <ul className="lk-list lk-chat-messages" ref={ulRef}>
+          {props.children
+            ? (isSearching ? searchResults : visibleMessages).map((msg, idx) =>
+                cloneSingleChild(props.children, {
+                  entry: msg,
+                  key: msg.id ?? idx,
+                  messageFormatter,
+                }),
+              )
+            : (isSearching
+                ? searchResults
+                : showThreads
+                  ? visibleThreads.map(({ root }) => root)
+                  : visibleMessages
+              ).map(renderEntry)}
+        </ul>
+      )}
+      <form
+        className="lk-chat-form"
+        onSubmit={handleSubmit}
+        data-lk-replying={!!replyTo}
+        data-lk-attaching={pendingFiles.length > 0 || !!formError}
+        data-lk-drag-over={isDragOver}
+        onDragOver={(ev) => {
+          ev.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(ev) => {
+          ev.preventDefault();
+          setIsDragOver(false);
+          addFiles(ev.dataTransfer.files);
+        }}
+      >
+        {mentionCandidates.length > 0 && (
+          <ul className="lk-list lk-chat-mention-suggestions" role="listbox" aria-label="Mention">
+            {mentionCandidates.map((participant, idx) => (
+              <li
+                key={participant.identity}
+                role="option"
+                aria-selected={idx === mentionIndex}
+                // Keep the focus in the input
+                onMouseDown={(ev) => ev.preventDefault()}
+                onClick={() => completeMention(participant)}
+              >
+                {participant.name || participant.identity}
+                {participant.name && <span> @{participant.identity}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+        {mentionCandidates.length === 0 && typingParticipants.length > 0 && (
+          <div className="lk-chat-typing" aria-live="polite">
+            {formatTypingParticipants(typingParticipants)}
+          </div>
+        )}
+        {replyTo && (
+          <div className="lk-chat-reply-banner">
+            <span>Replying to {replyTo.from?.name || replyTo.from?.identity}</span>
+            <button
+              type="button"
+              className="lk-button"
+              aria-label="Cancel reply"
+              onClick={() => setReplyTo(undefined)}
+            >
+              ✕
+            </button>
+          </div>
+        )}
+        {(pendingFiles.length > 0 || formError) && (
+          <div className="lk-chat-pending-attachments">
+            {pendingFiles.map((file, idx) => (
+              <span key={`${file.name}-${idx}`} className="lk-chat-pending-attachment">
+                {file.name}
+                <button
+                  type="button"
+                  className="lk-button"
+                  aria-label={`Remove ${file.name}`}
+                  onClick={() => setPendingFiles((pending) => pending.filter((f) => f !== file))}
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+            {formError && (
+              <span className="lk-chat-form-error" role="alert">
+                {formError}
+              </span>
+            )}
+          </div>
+        )}
+        <select
+          className="lk-form-control lk-chat-recipient-select"
+          aria-label="Send to"
+          value={conversation ?? ''}
+          onChange={(ev) => {
+            setConversation(ev.target.value || undefined);
+            setThreadId(undefined);
+            setReplyTo(undefined);
+          }}
+        >
+          <option value="">Everyone</option>
+          {remoteParticipants.map((participant) => (
+            <option key={participant.identity} value={participant.identity}>
+              {participant.name || participant.identity}
+            </option>
+          ))}
+        </select>
         <input
           className="lk-form-control lk-chat-form-input"
-          disabled={isSending}
+          disabled={isSendingMessage || isMuted}
           ref={inputRef}
           type="text"
-          placeholder="Enter a message..."
-          onInput={(ev) => ev.stopPropagation()}
-          onKeyDown={(ev) => ev.stopPropagation()}
+          placeholder={isMuted ? 'You are muted in the chat' : 'Enter a message...'}
+          onInput={(ev) => {
+            ev.stopPropagation();
+            const { value, selectionStart } = ev.currentTarget;
+            setMentionQuery(getMentionQuery(value, selectionStart ?? value.length));
+            setMentionIndex(0);
+            if (value) {
+              sendTyping(typingDestination);
+            } else {
+              sendStopTyping(typingDestination);
+            }
+          }}
+          onKeyDown={handleInputKeyDown}
           onKeyUp={(ev) => ev.stopPropagation()}
         />
-        <button type="submit" className="lk-button lk-chat-form-button" disabled={isSending}>
-          Send
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          hidden
+          onChange={(ev) => {
+            addFiles(ev.target.files);
+            ev.target.value = '';
+          }}
+        />
+        <button
+          type="button"
+          className="lk-button lk-chat-attach-button"
+          aria-label="Attach files"
+          disabled={isSendingMessage || isMuted}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Attach
+        </button>
+        <button
+          type="submit"
+          className="lk-button lk-chat-form-button"
+          disabled={isSending || isMuted}
+        >
+          {cooldown > 0 ? `Wait ${cooldown}s` : 'Send'}
         </button>
       </form>
     </div>
@@ -8,11 +8,14 @@ import { ChatToggle } from '../components/controls/ChatToggle';
 import { useLocalParticipantPermissions, usePersistentUserChoices } from '../hooks';
 import { useMediaQuery } from '../hooks/internal';
 import { useMaybeLayoutContext } from '../context';
+import type { MediaFileSharePolicy } from '@livekit/components-core';
 import { supportsScreenSharing } from '@livekit/components-core';
 import { mergeProps } from '../utils';
 import { SettingsMenuToggle } from '../components/controls/SettingsMenuToggle';
 import { VideoFileShareToggle } from '../components/controls/VideoFileShareToggle';
+import { AudioFileShareToggle } from '../components/controls/AudioFileShareToggle';
 import { StartMediaButton } from '../components/controls/StartMediaButton';
+import { useCanShareMediaFile, useMediaFileSharer } from '../hooks/useMediaFileShareAccess';
 
 /** @public */
 export type ControlBarControls = {
@@ -23,6 +26,7 @@ export type ControlBarControls = {
   leave?: boolean;
   settings?: boolean;
   videoFileShare?: boolean;
+  audioFileShare?: boolean;
 };
 
 const trackSourceToProtocol = (source: Track.Source) => {
@@ -51,6 +55,12 @@ export interface ControlBarProps extends React.HTMLAttributes<HTMLDivElement> {
    * @alpha
    */
   saveUserChoices?: boolean;
+  /**
+   * Restricts the video and audio file share controls to participants with a certain attribute,
+   * e.g. `{ attribute: 'role', allowedValues: ['host'] }`.
+   * @beta
+   */
+  mediaFileSharePolicy?: MediaFileSharePolicy;
 }
 
 /**
@@ -74,6 +84,7 @@ export function ControlBar({
   controls,
   saveUserChoices = true,
   onDeviceError,
+  mediaFileSharePolicy,
   ...props
 }: ControlBarProps) {
   const [isChatOpen, setIsChatOpen] = React.useState(false);
@@ -91,12 +102,22 @@ export function ControlBar({
   const visibleControls = { leave: true, ...controls };
 
   const localPermissions = useLocalParticipantPermissions();
+  const canShareVideoFile = useCanShareMediaFile('video', mediaFileSharePolicy);
+  const canShareAudioFile = useCanShareMediaFile('audio', mediaFileSharePolicy);
+  const mediaFileSharer = useMediaFileSharer();
+  const mediaFileSharerTitle =
+    mediaFileSharer &&
+    (mediaFileSharer.isLocal
+      ? 'You are sharing a file'
+      : `${mediaFileSharer.name || mediaFileSharer.identity} is sharing a file`);
 
   if (!localPermissions) {
     visibleControls.camera = false;
     visibleControls.chat = false;
     visibleControls.microphone = false;
     visibleControls.screenShare = false;
+    visibleControls.videoFileShare = false;
+    visibleControls.audioFileShare = false;
   } else {
     const canPublishSource = (source: Track.Source) => {
       return (
@@ -109,6 +130,9 @@ export function ControlBar({
     visibleControls.microphone ??= canPublishSource(Track.Source.Microphone);
     visibleControls.screenShare ??= canPublishSource(Track.Source.ScreenShare);
     visibleControls.chat ??= localPermissions.canPublishData && controls?.chat;
+    // File sharing is opt-in, but still requires the permission to publish its sources
+    visibleControls.videoFileShare &&= canShareVideoFile;
+    visibleControls.audioFileShare &&= canShareAudioFile;
   }
 
   const showIcon = React.useMemo(
@@ -212,11 +236,17 @@ export function ControlBar({
         </ChatToggle>
       )}
       {visibleControls.videoFileShare && (
-        <VideoFileShareToggle>
+        <VideoFileShareToggle title={mediaFileSharerTitle}>
           {showIcon && <span>📹</span>}
           {showText && 'Share Video'}
         </VideoFileShareToggle>
       )}
+      {visibleControls.audioFileShare && (
+        <AudioFileShareToggle title={mediaFileSharerTitle}>
+          {showIcon && <span>🎵</span>}
+          {showText && 'Share Audio'}
+        </AudioFileShareToggle>
+      )}
       {visibleControls.settings && (
         <SettingsMenuToggle>
           {showIcon && <GearIcon />}
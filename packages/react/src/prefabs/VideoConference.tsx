@@ -1,10 +1,17 @@
 import type {
+  MediaFileSharePolicy,
   MessageDecoder,
   MessageEncoder,
   TrackReferenceOrPlaceholder,
   WidgetState,
 } from '@livekit/components-core';
-import { isEqualTrackRef, isTrackReference, isWeb, log } from '@livekit/components-core';
+import {
+  isEqualTrackRef,
+  isMediaFileShareTrack,
+  isTrackReference,
+  isWeb,
+  log,
+} from '@livekit/components-core';
 import { RoomEvent, Track } from 'livekit-client';
 import * as React from 'react';
 import type { MessageFormatter } from '../components';
@@ -23,7 +30,9 @@ import { usePinnedTracks, useTracks } from '../hooks';
 import { Chat } from './Chat';
 import { ControlBar } from './ControlBar';
 import { VideoFileModal } from '../components/VideoFileModal';
+import { AudioFileModal } from '../components/AudioFileModal';
 import { VideoFileShareContext } from '../hooks/useVideoFileShareToggle';
+import type { MediaFileShareKind } from '../hooks/useVideoFileShare';
 
 /**
  * @public
@@ -34,6 +43,12 @@ export interface VideoConferenceProps extends React.HTMLAttributes<HTMLDivElemen
   chatMessageDecoder?: MessageDecoder;
   /** @alpha */
   SettingsComponent?: React.ComponentType;
+  /**
+   * Restricts sharing video and audio files to participants with a certain attribute,
+   * e.g. `{ attribute: 'role', allowedValues: ['host'] }`.
+   * @beta
+   */
+  mediaFileSharePolicy?: MediaFileSharePolicy;
 }
 
 /**
@@ -59,6 +74,7 @@ export function VideoConference({
   chatMessageDecoder,
   chatMessageEncoder,
   SettingsComponent,
+  mediaFileSharePolicy,
   ...props
 }: VideoConferenceProps) {
   const [widgetState, setWidgetState] = React.useState<WidgetState>({
@@ -66,10 +82,10 @@ export function VideoConference({
     unreadMessages: 0,
     showSettings: false,
   });
-  
-  // Separate state for video file share modal
-  const [showVideoFileShare, setShowVideoFileShare] = React.useState(false);
-  
+
+  // Separate state for the video and audio file share modals
+  const [openFileShare, setOpenFileShare] = React.useState<MediaFileShareKind | null>(null);
+
   const lastAutoFocusedScreenShareTrack = React.useRef<TrackReferenceOrPlaceholder | null>(null);
 
   const tracks = useTracks(
@@ -87,9 +103,11 @@ export function VideoConference({
 
   const layoutContext = useCreateLayoutContext();
 
+  // Real screen shares take precedence over shared media files when auto focusing.
   const screenShareTracks = tracks
     .filter(isTrackReference)
-    .filter((track) => track.publication.source === Track.Source.ScreenShare);
+    .filter((track) => track.publication.source === Track.Source.ScreenShare)
+    .sort((a, b) => Number(isMediaFileShareTrack(a)) - Number(isMediaFileShareTrack(b)));
 
   const focusTrack = usePinnedTracks(layoutContext)?.[0];
   const carouselTracks = tracks.filter((track) => !isEqualTrackRef(track, focusTrack));
@@ -136,10 +154,12 @@ export function VideoConference({
   // Video file share context value
   const videoFileShareContextValue = React.useMemo(
     () => ({
-      isOpen: showVideoFileShare,
-      toggle: () => setShowVideoFileShare(prev => !prev),
+      isOpen: openFileShare !== null,
+      kind: openFileShare ?? 'video',
+      toggle: (kind: MediaFileShareKind = 'video') =>
+        setOpenFileShare((prev) => (prev === kind ? null : kind)),
     }),
-    [showVideoFileShare]
+    [openFileShare],
   );
 
   return (
@@ -151,45 +171,59 @@ export function VideoConference({
             // onPinChange={handleFocusStateChange}
             onWidgetChange={widgetUpdate}
           >
-          <div className="lk-video-conference-inner">
-            {!focusTrack ? (
-              <div className="lk-grid-layout-wrapper">
-                <GridLayout tracks={tracks}>
-                  <ParticipantTile />
-                </GridLayout>
-              </div>
-            ) : (
-              <div className="lk-focus-layout-wrapper">
-                <FocusLayoutContainer>
-                  <CarouselLayout tracks={carouselTracks}>
+            <div className="lk-video-conference-inner">
+              {!focusTrack ? (
+                <div className="lk-grid-layout-wrapper">
+                  <GridLayout tracks={tracks}>
                     <ParticipantTile />
-                  </CarouselLayout>
-                  {focusTrack && <FocusLayout trackRef={focusTrack} />}
-                </FocusLayoutContainer>
+                  </GridLayout>
+                </div>
+              ) : (
+                <div className="lk-focus-layout-wrapper">
+                  <FocusLayoutContainer>
+                    <CarouselLayout tracks={carouselTracks}>
+                      <ParticipantTile />
+                    </CarouselLayout>
+                    {focusTrack && <FocusLayout trackRef={focusTrack} />}
+                  </FocusLayoutContainer>
+                </div>
+              )}
+              <ControlBar
+                controls={{
+                  chat: true,
+                  settings: !!SettingsComponent,
+                  videoFileShare: true,
+                  audioFileShare: true,
+                }}
+                mediaFileSharePolicy={mediaFileSharePolicy}
+              />
+            </div>
+            <Chat
+              style={{ display: widgetState.showChat ? 'grid' : 'none' }}
+              messageFormatter={chatMessageFormatter}
+              messageEncoder={chatMessageEncoder}
+              messageDecoder={chatMessageDecoder}
+            />
+            {SettingsComponent && (
+              <div
+                className="lk-settings-menu-modal"
+                style={{ display: widgetState.showSettings ? 'block' : 'none' }}
+              >
+                <SettingsComponent />
               </div>
             )}
-            <ControlBar controls={{ chat: true, settings: !!SettingsComponent, videoFileShare: true }} />
-          </div>
-          <Chat
-            style={{ display: widgetState.showChat ? 'grid' : 'none' }}
-            messageFormatter={chatMessageFormatter}
-            messageEncoder={chatMessageEncoder}
-            messageDecoder={chatMessageDecoder}
-          />
-          {SettingsComponent && (
-            <div
-              className="lk-settings-menu-modal"
-              style={{ display: widgetState.showSettings ? 'block' : 'none' }}
-            >
-              <SettingsComponent />
-            </div>
-          )}
-          {/* Video File Share Modal */}
-          <VideoFileModal
-            isOpen={showVideoFileShare}
-            onClose={() => setShowVideoFileShare(false)}
-          />
-        </LayoutContextProvider>
+            {/* Video File Share Modal */}
+            <VideoFileModal
+              isOpen={openFileShare === 'video'}
+              onClose={() => setOpenFileShare(null)}
+              policy={mediaFileSharePolicy}
+            />
+            <AudioFileModal
+              isOpen={openFileShare === 'audio'}
+              onClose={() => setOpenFileShare(null)}
+              policy={mediaFileSharePolicy}
+            />
+          </LayoutContextProvider>
         </VideoFileShareContext.Provider>
       )}
       <RoomAudioRenderer />